@@ -5,67 +5,315 @@
  * Usage:
  *   npx tsx cli.ts output.glb
  *   npx tsx cli.ts output.3mf
- *   npx tsx cli.ts output.glb --radius 25 --markings makerChipV5
+ *   npx tsx cli.ts output.stl --ascii
+ *   npx tsx cli.ts output.glb --radius 25 --markings portholes
+ *   npx tsx cli.ts batch manifest.csv --out-dir chips
+ *   npx tsx cli.ts list-patterns
  */
 
-import { extname, basename } from 'path';
-import { writeFile, readFile } from 'fs/promises';
+import { extname, basename, join } from 'path';
+import { writeFile, readFile, mkdir } from 'fs/promises';
 import { existsSync } from 'fs';
 import { parseArgs } from 'util';
 import type { Manifold } from '@cadit-app/manifold-3d';
+import type { BatchResult, ManifestRow } from './src/batch';
+import type { PlatePacking } from './src/plate';
 
-const SUPPORTED_FORMATS = ['.glb', '.3mf'] as const;
+const SUPPORTED_FORMATS = ['.glb', '.3mf', '.stl', '.obj', '.zip', '.svg', '.dxf', '.png'] as const;
 type OutputFormat = (typeof SUPPORTED_FORMATS)[number];
 
 // Parse command line arguments
-const { values, positionals } = parseArgs({
+const { values, positionals, tokens } = parseArgs({
   allowPositionals: true,
+  tokens: true,
   options: {
+    // Presets
+    config: { type: 'string' },
+    'dump-config': { type: 'string' },
     radius: { type: 'string', short: 'r', default: '20' },
     height: { type: 'string', short: 'h', default: '3' },
     rounding: { type: 'string', default: '1' },
+    'edge-profile': { type: 'string', default: 'round' },
+    'bottom-rounding': { type: 'string', default: '-1' },
+    'rim-lip-height': { type: 'string', default: '0' },
+    'rim-lip-width': { type: 'string', default: '1.5' },
+    'reed-count': { type: 'string', default: '0' },
+    'reed-depth': { type: 'string', default: '0.3' },
     'center-radius': { type: 'string', default: '14' },
     assembly: { type: 'string', short: 'a', default: 'flat' },
-    markings: { type: 'string', short: 'm', default: 'makerChipV1' },
+    quality: { type: 'string', default: 'normal' },
+    inlay: { type: 'boolean', default: false },
+    'inlay-depth': { type: 'string', default: '0' },
+    'marking-offset': { type: 'string', default: '0' },
+    'marking-thickness': { type: 'string', default: '0' },
+    'center-offset': { type: 'string', default: '0' },
+    'center-thickness': { type: 'string', default: '0' },
+    'qr-offset': { type: 'string', default: '0' },
+    'qr-thickness': { type: 'string', default: '0' },
+    'image-offset': { type: 'string', default: '0' },
+    'image-thickness': { type: 'string', default: '0' },
+    outline: { type: 'string', default: 'circle' },
+    'outline-sides': { type: 'string', default: '6' },
+    'outline-rotation': { type: 'string', default: '0' },
+    'outline-corner-radius': { type: 'string', default: '2' },
+    'outline-file': { type: 'string' },
+    markings: { type: 'string', short: 'm', default: 'classicDashed' },
+    'markings-file': { type: 'string' },
+    layer: { type: 'string', multiple: true, default: [] },
+    'pattern-rotation': { type: 'string', default: '0' },
+    'pattern-mirror': { type: 'boolean', default: false },
+    'pattern-invert': { type: 'boolean', default: false },
+    'pattern-inner-radius': { type: 'string', default: '0' },
+    'pattern-outer-radius': { type: 'string', default: '0' },
+    // Procedural pattern params
+    'band-width': { type: 'string', default: '3' },
+    'notch-count': { type: 'string', default: '12' },
+    'notch-width': { type: 'string', default: '8' },
+    'notch-depth': { type: 'string', default: '1.5' },
+    'wedge-count': { type: 'string', default: '6' },
+    'wedge-angle': { type: 'string', default: '30' },
+    'ring-count': { type: 'string', default: '2' },
+    'ring-width': { type: 'string', default: '1' },
+    'ring-gap': { type: 'string', default: '1' },
+    'gear-teeth': { type: 'string', default: '24' },
+    'gear-tooth-depth': { type: 'string', default: '1.5' },
+    'dash-count': { type: 'string', default: '16' },
+    'dash-length': { type: 'string', default: '60' },
+    'dash-width': { type: 'string', default: '1.5' },
+    'dash-inset': { type: 'string', default: '0.75' },
+    // Text params
+    text: { type: 'string', default: '' },
+    'text-size': { type: 'string', default: '3' },
+    'text-arc-radius': { type: 'string', default: '17' },
+    'text-start-angle': { type: 'string', default: '150' },
+    'text-face': { type: 'string', default: 'top' },
+    'text-mode': { type: 'string', default: 'emboss' },
+    'text-depth': { type: 'string', default: '0.6' },
+    // Keychain params
+    keychain: { type: 'string', default: 'none' },
+    'keychain-angle': { type: 'string', default: '90' },
+    'keychain-inset': { type: 'string', default: '3.5' },
+    'keychain-diameter': { type: 'string', default: '4' },
+    'keychain-slot-length': { type: 'string', default: '10' },
+    'keychain-tab-wall': { type: 'string', default: '2' },
+    // Pocket params
+    pocket: { type: 'string', default: 'none' },
+    'pocket-face': { type: 'string', default: 'bottom' },
+    'pocket-diameter': { type: 'string', default: '10' },
+    'pocket-depth': { type: 'string', default: '2' },
+    'pocket-clearance': { type: 'string', default: '0.2' },
+    'pocket-wall': { type: 'string', default: '0.6' },
+    'pocket-in-place': { type: 'boolean', default: false },
+    // Part color and extruder params
+    'base-color': { type: 'string', default: '#F5F5F5' },
+    'base-extruder': { type: 'string', default: '1' },
+    'center-color': { type: 'string', default: '#212121' },
+    'center-extruder': { type: 'string', default: '2' },
+    'marking-color': { type: 'string', default: '#1E88E5' },
+    'marking-extruder': { type: 'string', default: '3' },
+    'qr-color': { type: 'string', default: '#212121' },
+    'qr-extruder': { type: 'string', default: '4' },
+    'image-color': { type: 'string', default: '#E53935' },
+    'image-extruder': { type: 'string', default: '4' },
+    'text-color': { type: 'string', default: '#FDD835' },
+    'text-extruder': { type: 'string', default: '4' },
+    // Single-extruder params
+    'single-extruder': { type: 'boolean', default: false },
+    'layer-height': { type: 'string', default: '0.2' },
+    'relief-height': { type: 'string', default: '0.6' },
+    // Laser params
+    kerf: { type: 'string', default: '0' },
+    nested: { type: 'boolean', default: false },
+    sheet: { type: 'string', default: '300x200' },
+    'sheet-gap': { type: 'string', default: '2' },
     // QR Code embedded params
     'qr-enabled': { type: 'boolean', default: false },
     'qr-content': { type: 'string', default: 'https://cadit.app' },
     'qr-size': { type: 'string', default: '18' },
     'qr-height': { type: 'string', default: '1' },
+    'qr-auto-fit': { type: 'boolean', default: false },
+    'qr-margin': { type: 'string', default: '1' },
+    'qr-error-correction': { type: 'string', default: 'auto' },
+    'qr-face': { type: 'string', default: 'top' },
+    'qr-style': { type: 'string', default: 'deboss' },
+    'qr-rotation': { type: 'string', default: '0' },
+    'qr-x': { type: 'string', default: '0' },
+    'qr-y': { type: 'string', default: '0' },
+    nozzle: { type: 'string', default: '0.4' },
     // Image Extrude embedded params
     'image-enabled': { type: 'boolean', default: false },
     'image-file': { type: 'string' },
     'image-mode': { type: 'string', default: 'sample' },
     'image-height': { type: 'string', default: '1' },
     'image-max-width': { type: 'string', default: '18' },
+    'image-face': { type: 'string', default: 'bottom' },
+    'image-style': { type: 'string', default: 'deboss' },
+    'image-rotation': { type: 'string', default: '0' },
+    'image-x': { type: 'string', default: '0' },
+    'image-y': { type: 'string', default: '0' },
+    // Batch params
+    'out-dir': { type: 'string', default: '.' },
+    name: { type: 'string', default: 'chip-{index}.3mf' },
+    // Plate params
+    copies: { type: 'string' },
+    manifest: { type: 'string' },
+    bed: { type: 'string', default: '256x256' },
+    gap: { type: 'string', default: '5' },
+    packing: { type: 'string', default: 'grid' },
+    ascii: { type: 'boolean', default: false },
+    strict: { type: 'boolean', default: false },
+    'png-size': { type: 'string', default: '512' },
+    // Geometry report
+    report: { type: 'boolean', default: false },
+    'report-json': { type: 'string' },
+    filament: { type: 'string', multiple: true, default: [] },
+    currency: { type: 'string', default: '' },
     help: { type: 'boolean', default: false },
   },
 });
 
-if (values.help || positionals.length === 0) {
+if (values.help || (positionals.length === 0 && !values['dump-config'] && !wantsReport())) {
   console.log(`
 Makerchip Generator CLI
 
 Usage:
-  npx tsx cli.ts <output.[glb|3mf]> [options]
+  npx tsx cli.ts <output.[glb|3mf|stl|obj|zip|svg|dxf|png]> [options]
+  npx tsx cli.ts batch <manifest.[csv|json]> [--out-dir <dir>] [--name <template>] [options]
+  npx tsx cli.ts --config <preset.json> --dump-config <resolved.json> [options]
+  npx tsx cli.ts --report [--filament <spec>] [options]
+  npx tsx cli.ts list-patterns
+  npx tsx cli.ts show-pattern <pattern> [preview.[svg|png]]
 
 Output Formats:
   .glb   3D model (GLTF binary)
   .3mf   3D model for multi-color printing
+  .stl   Single mesh (binary, or ASCII with --ascii)
+  .obj   Mesh with one object per part, and part colors in a .mtl next to it
+  .zip   One STL per part
+  .svg   2D cut outlines for laser cutting, one file per layer (or per sheet)
+  .dxf   Same as .svg, as DXF
+  .png   Top-down preview image in the part colors
 
 Chip Options:
   -r, --radius <number>        Chip radius in mm (default: 20)
   -h, --height <number>        Extrusion height in mm (default: 3)
   --rounding <number>          Edge rounding radius in mm (default: 1)
+  --edge-profile <shape>       Edge shape: round or chamfer (default: round)
+  --bottom-rounding <number>   Bottom edge size in mm; -1 = same as --rounding (default: -1)
+  --rim-lip-height <number>    Raise a lip around the top face in mm; 0 = none (default: 0)
+  --rim-lip-width <number>     Rim lip width in mm (default: 1.5)
+  --reed-count <number>        Ridges around a reeded coin edge; 0 = smooth, circle only (default: 0)
+  --reed-depth <number>        Depth of the reeded edge's grooves in mm (default: 0.3)
   --center-radius <number>     Center circle radius in mm (default: 14)
   -a, --assembly <type>        Assembly type: flat or printable (default: flat)
-  -m, --markings <pattern>     Pattern style (default: makerChipV1)
+  --quality <quality>          Curve quality: draft, normal, fine, or a chord tolerance in mm
+                               (default: normal)
+  --inlay                      Printable parts are cut from each other into a flush inlay
+  --inlay-depth <number>       How deep the inlays go in mm; 0 = full height (default: 0)
+
+Relief Options (printable assembly):
+  --marking-offset <number>    Raise the marking above the top face in mm; negative recesses it,
+                               e.g. --marking-offset=-0.4 (default: 0)
+  --marking-thickness <number> Marking thickness below its top in mm; 0 = full height (default: 0)
+  --center-offset <number>     Raise the center disk above the top face in mm (default: 0)
+  --center-thickness <number>  Center disk thickness in mm; 0 = full height (default: 0)
+  --qr-offset <number>         How far the QR code stands out from its face in mm (default: 0)
+  --qr-thickness <number>      QR code thickness in mm; 0 = QR height (default: 0)
+  --image-offset <number>      How far the image stands out from its face in mm (default: 0)
+  --image-thickness <number>   Image thickness in mm; 0 = image height (default: 0)
+  -m, --markings <pattern>     Pattern style, see list-patterns (default: classicDashed)
+  --markings-file <path>       Custom pattern SVG (overrides --markings)
+  --layer <spec>               Add a pattern layer, bottom first; repeat for more. The spec is a pattern,
+                               then any of inner=, outer=, offset=, thickness=, rotation=, role=, mirror
+                               and invert, e.g. portholes,outer=17,role=center (overrides --markings)
+  --pattern-rotation <degrees> Rotate the pattern counter-clockwise (default: 0)
+  --pattern-mirror             Mirror the pattern left to right
+  --pattern-invert             Fill the gaps of the pattern's ring instead of the pattern
+  --pattern-inner-radius <n>   Squeeze the pattern's ring outside this radius in mm; 0 = none (default: 0)
+  --pattern-outer-radius <n>   Scale the pattern's edge to this radius in mm; 0 = chip edge (default: 0)
+
+Outline Options:
+  --outline <type>             circle, polygon, roundedSquare, shield or custom (default: circle)
+  --outline-sides <number>     Polygon sides (default: 6)
+  --outline-rotation <degrees> Outline rotation (default: 0)
+  --outline-corner-radius <n>  Outline corner radius in mm (default: 2)
+  --outline-file <path>        Custom outline SVG (with --outline custom)
+
+Procedural Pattern Options (radialNotches, wedgeSegments, concentricRings, gearTeeth, dashedBand):
+  --band-width <number>        Pattern band width from the edge in mm (default: 3)
+  --notch-count <number>       Number of notches (default: 12)
+  --notch-width <degrees>      Notch width (default: 8)
+  --notch-depth <number>       Notch depth in mm (default: 1.5)
+  --wedge-count <number>       Number of wedges (default: 6)
+  --wedge-angle <degrees>      Wedge angle (default: 30)
+  --ring-count <number>        Number of rings (default: 2)
+  --ring-width <number>        Ring width in mm (default: 1)
+  --ring-gap <number>          Gap between rings in mm (default: 1)
+  --gear-teeth <number>        Number of gear teeth (default: 24)
+  --gear-tooth-depth <number>  Gear tooth depth in mm (default: 1.5)
+  --dash-count <number>        Number of dashes (default: 16)
+  --dash-length <percent>      Dash length as % of spacing (default: 60)
+  --dash-width <number>        Dash width in mm (default: 1.5)
+  --dash-inset <number>        Dash inset from the edge in mm (default: 0.75)
+
+Text Options:
+  --text <text>                Text to engrave (default: none)
+  --text-size <number>         Text cap height in mm (default: 3)
+  --text-arc-radius <number>   Arc radius in mm, 0 for straight text (default: 17)
+  --text-start-angle <degrees> Where the text starts, running clockwise; 90 = top (default: 150)
+  --text-face <top|bottom>     Face to put the text on (default: top)
+  --text-mode <emboss|deboss>  Raised or recessed text (default: emboss)
+  --text-depth <number>        Text height or recess depth in mm (default: 0.6)
+
+Keychain Options:
+  --keychain <type>            none, hole, tab or slot (default: none)
+  --keychain-angle <degrees>   Position around the chip; 90 = top (default: 90)
+  --keychain-inset <number>    Hole/slot inset from the edge in mm (default: 3.5)
+  --keychain-diameter <number> Hole diameter or slot width in mm (default: 4)
+  --keychain-slot-length <n>   Slot length in mm (default: 10)
+  --keychain-tab-wall <number> Tab loop wall thickness in mm (default: 2)
+
+Pocket Options:
+  --pocket <type>              none, magnet6x2, magnet6x3, magnet8x3, magnet10x2, magnet10x3,
+                               magnet12x3, ntag213, ntag215, cr2032 or custom (default: none)
+  --pocket-face <top|bottom>   Face to open the pocket on (default: bottom)
+  --pocket-diameter <number>   Custom pocket diameter in mm (default: 10)
+  --pocket-depth <number>      Custom pocket depth in mm (default: 2)
+  --pocket-clearance <number>  Extra diameter for the insert in mm (default: 0.2)
+  --pocket-wall <number>       Wall/ceiling thickness in mm (default: 0.6)
+  --pocket-in-place            Close the pocket and pause the print to insert
+
+Part Colors (3MF):
+  --<part>-color <hex>         Display color of a part, where <part> is base, center,
+                               marking, qr, image or text (e.g. --marking-color #1E88E5)
+  --<part>-extruder <number>   Extruder for a part (defaults: base 1, center 2,
+                               marking 3, qr/image/text 4); parts may share one
+
+Single Extruder Options (.3mf):
+  --single-extruder            Stack the colors in layers and add color changes,
+                               for printers with one nozzle
+  --layer-height <number>      Layer height to align the color changes to (default: 0.2)
+  --relief-height <number>     Height of the raised marking and center in mm (default: 0.6)
+
+Laser Options (.svg, .dxf):
+  --kerf <number>              Laser kerf width in mm; outlines grow by half (default: 0)
+  --nested                     Nest all layers on sheets instead of one file per layer
+  --sheet <width>x<height>     Sheet size for --nested in mm (default: 300x200)
+  --sheet-gap <number>         Gap between nested layers in mm (default: 2)
 
 QR Code Options (embedded maker):
   --qr-enabled                 Enable QR code generation
   --qr-content <text>          QR code content (default: https://cadit.app)
   --qr-size <number>           QR code size in mm (default: 18)
   --qr-height <number>         QR code extrusion height in mm (default: 1)
+  --qr-auto-fit                Size the QR code to the largest square in the center circle
+  --qr-margin <number>         Margin to the center circle edge for --qr-auto-fit (default: 1)
+  --qr-error-correction <lvl>  L, M, Q, H or auto (default: auto, the highest that prints)
+  --nozzle <number>            Nozzle diameter for QR module checks in mm (default: 0.4)
+  --qr-face <top|bottom|both>  Face to put the QR code on (default: top)
+  --qr-style <emboss|deboss>   Raised on the face, or sunk flush into it (default: deboss)
+  --qr-rotation <degrees>      Counter-clockwise rotation, seen from its face (default: 0)
+  --qr-x, --qr-y <number>      Offset from the chip center in mm, seen from its face (default: 0)
 
 Image Extrude Options (embedded maker):
   --image-enabled              Enable image extrusion
@@ -73,43 +321,175 @@ Image Extrude Options (embedded maker):
   --image-mode <trace|sample>  Processing mode (default: sample)
   --image-height <number>      Extrusion height in mm (default: 1)
   --image-max-width <number>   Maximum width in mm (default: 18)
+  --image-face <top|bottom|both> Face to put the image on (default: bottom)
+  --image-style <emboss|deboss> Raised on the face, or sunk flush into it (default: deboss)
+  --image-rotation <degrees>   Counter-clockwise rotation, seen from its face (default: 0)
+  --image-x, --image-y <number> Offset from the chip center in mm, seen from its face (default: 0)
+
+Preset Options:
+  --config <file>              Load params from a JSON preset; other options override it
+  --dump-config <file>         Write the fully resolved params as a JSON preset; without an
+                               output file, nothing else is generated
+
+Batch Options:
+  --out-dir <dir>              Directory for the generated files (default: .)
+  --name <template>            Filename template; {index} is the row number, {<param>}
+                               any manifest column or param (default: chip-{index}.3mf)
+
+  Each manifest row overrides the params given by the other options. CSV columns
+  and JSON keys are param names, with dot paths for embedded params (for example
+  qrCodeSettings.params.text). A summary is written to batch-report.json.
+
+Report Options (works without an output file):
+  --report                     Print each part's volume, area, size, triangles and filament use
+  --report-json <file>         Write the report as JSON (single chip)
+  --filament <spec>            Filament for the report: pla, petg, abs, asa, tpu or
+                               <density g/cm³>:<diameter mm>:<cost per kg>; prefix a part to
+                               set only that part, e.g. --filament text=tpu (default: pla)
+  --currency <symbol>          Currency shown with costs (default: none)
+
+Plate Options (many chips in one .3mf):
+  --copies <number>            Lay out this many copies of the chip
+  --manifest <file>            Lay out one chip per row of a CSV/JSON manifest
+  --bed <width>x<depth>        Build plate size in mm (default: 256x256)
+  --gap <number>               Gap between chips in mm (default: 5)
+  --packing <grid|hex>         Packing pattern (default: grid)
 
 General:
+  --ascii                      Write ASCII instead of binary STL
+  --strict                     Treat validation warnings as errors
+  --png-size <pixels>          Width and height of .png previews (default: 512)
   --help                       Show this help
 
-Available Patterns:
-  makerChipV1 through makerChipV20
+Patterns:
+  list-patterns                List every built-in pattern with its tags and symmetry
+  show-pattern <pattern> [out] Show a pattern's details, and write it as .svg or as a
+                               .png preview (default: <pattern>.svg)
+  Older ids such as makerChipV5 still select the matching pattern.
 
 Examples:
   npx tsx cli.ts chip.glb
-  npx tsx cli.ts chip.3mf --markings makerChipV5 --radius 25
-  npx tsx cli.ts chip.glb -m makerChipV10 -a printable
+  npx tsx cli.ts chip.3mf --markings portholes --radius 25
+  npx tsx cli.ts chip.glb -m sunburst -a printable
+  npx tsx cli.ts show-pattern scallopedGear gear.png --png-size 256
+  npx tsx cli.ts chip.3mf --inlay --inlay-depth 0.6
+  npx tsx cli.ts chip.glb --radius 60 --quality 0.002
+  npx tsx cli.ts chip.3mf -a printable --marking-offset 0.6 --center-offset=-0.4 --image-offset 0.6
+  npx tsx cli.ts chip.3mf --markings-file my-pattern.svg
+  npx tsx cli.ts chip.3mf -m sunburst --pattern-invert --pattern-rotation 9
+  npx tsx cli.ts chip.3mf -a printable --layer sixNotch --layer portholes,outer=17,inner=14,role=text
+  npx tsx cli.ts chip.3mf -m radialNotches --notch-count 12 --band-width 2
+  npx tsx cli.ts chip.3mf --outline polygon --outline-sides 6
+  npx tsx cli.ts chip.3mf --edge-profile chamfer --bottom-rounding 0.4 --reed-count 90
+  npx tsx cli.ts chip.3mf -a printable --rim-lip-height 0.6 --rim-lip-width 2
+  npx tsx cli.ts chip.3mf --text "MAKER FAIRE 2026" --text-mode deboss
+  npx tsx cli.ts chip.3mf --keychain tab
+  npx tsx cli.ts chip.3mf --pocket magnet10x2 --pocket-in-place
+  npx tsx cli.ts chip.3mf --marking-color "#E53935" --center-extruder 1
+  npx tsx cli.ts chip.3mf --single-extruder --layer-height 0.16 --qr-enabled
+  npx tsx cli.ts chip.stl --ascii
+  npx tsx cli.ts chip.obj --marking-color "#E53935"
+  npx tsx cli.ts chip.png --png-size 1024
+  npx tsx cli.ts chip.svg --kerf 0.15
+  npx tsx cli.ts chip.dxf --nested --sheet 400x300
   npx tsx cli.ts chip.glb --qr-enabled --qr-content "Hello World"
+  npx tsx cli.ts chip.3mf --qr-enabled --qr-auto-fit --nozzle 0.25
   npx tsx cli.ts chip.glb --image-enabled --image-file logo.svg
+  npx tsx cli.ts chip.3mf --qr-enabled --qr-face both --image-enabled --image-file logo.svg --image-face top --image-y 8
+  npx tsx cli.ts --radius 25 --qr-enabled --dump-config house-style.json
+  npx tsx cli.ts --config house-style.json --report --filament petg --filament text=1.24:1.75:25 --currency €
+  npx tsx cli.ts chip.3mf --config house-style.json --text "MAKER FAIRE 2026"
+  npx tsx cli.ts batch attendees.csv --out-dir chips --name "{index}-{textContent}.3mf"
+  npx tsx cli.ts plate.3mf --copies 20 --bed 220x220 --packing hex
+  npx tsx cli.ts plate.3mf --manifest attendees.csv
 `);
   process.exit(0);
 }
 
+const isBatch = positionals[0] === 'batch';
+const isPatternCommand = positionals[0] === 'list-patterns' || positionals[0] === 'show-pattern';
+// With --dump-config, a report or a pattern command alone, no model is written
+const isDumpOnly = positionals.length === 0 || isPatternCommand;
+
+if (positionals[0] === 'show-pattern' && !positionals[1]) {
+  console.error('Error: show-pattern needs a pattern id, see list-patterns');
+  process.exit(1);
+}
+
+if (isBatch && !positionals[1]) {
+  console.error('Error: batch needs a manifest file (.csv or .json)');
+  process.exit(1);
+}
+
+const isPlate = !isBatch && !isDumpOnly && (values.copies !== undefined || values.manifest !== undefined);
+
 const outputFile = positionals[0];
-const ext = extname(outputFile).toLowerCase() as OutputFormat;
+const ext = (isDumpOnly ? '' : extname(isBatch ? values.name : outputFile).toLowerCase()) as OutputFormat;
 
-if (!SUPPORTED_FORMATS.includes(ext)) {
+if (isPlate && ext !== '.3mf') {
+  console.error('Error: Plate layouts can only be written as .3mf');
+  process.exit(1);
+}
+
+if (values['single-extruder'] && !isDumpOnly && (ext !== '.3mf' || isPlate)) {
+  console.error('Error: --single-extruder needs a single chip written as .3mf');
+  process.exit(1);
+}
+
+if (!isDumpOnly && !SUPPORTED_FORMATS.includes(ext)) {
   console.error(`Error: Output file must have one of these extensions: ${SUPPORTED_FORMATS.join(', ')}`);
   console.error(`Got: ${ext}`);
   process.exit(1);
 }
 
-async function main() {
-  console.log('Initializing manifold...');
+/**
+ * Whether a geometry report was asked for.
+ */
+function wantsReport() {
+  return values.report || values['report-json'] !== undefined;
+}
 
-  // Initialize manifold-3d (must happen before importing maker modules)
-  const manifoldModule = await import('@cadit-app/manifold-3d');
-  await manifoldModule.default();
+/**
+ * Print the geometry report for a chip, and write it as JSON with --report-json.
+ */
+async function reportChip(params: CliParams, label: string, jsonFile?: string) {
+  const { generateReport, formatReport, parseFilaments } = await import('./src/report');
+  const report = await generateReport(params as any, {
+    filaments: parseFilaments(values.filament),
+    currency: values.currency,
+  });
+  if (values.report) {
+    console.log(`${label}:\n${formatReport(report)}`);
+  }
+  if (jsonFile) {
+    await writeFile(jsonFile, `${JSON.stringify(report, null, 2)}\n`);
+    console.log(`✓ Wrote report ${jsonFile}`);
+  }
+}
 
-  console.log('Loading Makerchip module...');
+/**
+ * Load an SVG file as a file param value.
+ */
+async function loadSvgFile(svgPath: string, kind: string) {
+  if (!existsSync(svgPath)) {
+    throw new Error(`${kind} file not found: ${svgPath}`);
+  }
+  if (extname(svgPath).toLowerCase() !== '.svg') {
+    throw new Error(`${kind} file must be an SVG: ${svgPath}`);
+  }
+  const svgData = await readFile(svgPath);
+  console.log(`Loaded ${kind.toLowerCase()}: ${svgPath}`);
+  return {
+    dataUrl: `data:image/svg+xml;base64,${svgData.toString('base64')}`,
+    fileType: 'image/svg+xml',
+    fileName: basename(svgPath),
+  };
+}
 
-  // Import the Makerchip generator
-  const makerchipModule = await import('./src/main');
+/**
+ * Build the Makerchip params from the command line options.
+ */
+async function buildParams() {
   const { getDefaults } = await import('@cadit-app/script-params');
   const { qrCodeParamsSchema } = await import('@cadit-app/qr-code/src/params');
   const { imageExtrudeParamsSchema } = await import('@cadit-app/image-extrude/src/params');
@@ -142,8 +522,8 @@ async function main() {
     },
   };
 
-  // Load image file if specified
-  if (values['image-enabled'] && values['image-file']) {
+  // Load image file if specified, also without --image-enabled, for presets that enable the image
+  if (values['image-file']) {
     const imagePath = values['image-file'];
     if (existsSync(imagePath)) {
       const imageData = await readFile(imagePath);
@@ -164,36 +544,315 @@ async function main() {
     }
   }
 
+  // Load custom pattern and outline SVGs if specified
+  const markingsFile = values['markings-file'] ? await loadSvgFile(values['markings-file'], 'Pattern') : undefined;
+  const outlineFile = values['outline-file'] ? await loadSvgFile(values['outline-file'], 'Outline') : undefined;
+  const { parsePatternLayer } = await import('./src/patternLayers');
+  const { parseQuality } = await import('./src/quality');
+  const patternLayers = values.layer.map(parsePatternLayer);
+
+  const [laserSheetWidth, laserSheetHeight] = values.sheet.toLowerCase().split('x').map(Number);
+  if (!laserSheetWidth || !laserSheetHeight) {
+    throw new Error(`Invalid sheet size: ${values.sheet} (expected <width>x<height>, e.g. 300x200)`);
+  }
+
   const params = {
     radius: parseFloat(values.radius || '20'),
     height: parseFloat(values.height || '3'),
     roundingRadius: parseFloat(values.rounding || '1'),
+    edgeProfile: values['edge-profile'],
+    bottomRoundingRadius: parseFloat(values['bottom-rounding']),
+    rimLipHeight: parseFloat(values['rim-lip-height']),
+    rimLipWidth: parseFloat(values['rim-lip-width']),
+    reedCount: parseFloat(values['reed-count']),
+    reedDepth: parseFloat(values['reed-depth']),
     centerCircleRadius: parseFloat(values['center-radius'] || '14'),
     assemblyType: values.assembly || 'flat',
-    markings: values.markings || 'makerChipV1',
+    ...parseQuality(values.quality),
+    inlay: values.inlay,
+    inlayDepth: parseFloat(values['inlay-depth']),
+    markingOffset: parseFloat(values['marking-offset']),
+    markingThickness: parseFloat(values['marking-thickness']),
+    centerOffset: parseFloat(values['center-offset']),
+    centerThickness: parseFloat(values['center-thickness']),
+    qrOffset: parseFloat(values['qr-offset']),
+    qrThickness: parseFloat(values['qr-thickness']),
+    imageOffset: parseFloat(values['image-offset']),
+    imageThickness: parseFloat(values['image-thickness']),
+    outline: values.outline,
+    outlineSides: parseFloat(values['outline-sides']),
+    outlineRotation: parseFloat(values['outline-rotation']),
+    outlineCornerRadius: parseFloat(values['outline-corner-radius']),
+    outlineFile,
+    markings: patternLayers.length > 0 ? patternLayers : values.markings || 'classicDashed',
+    markingsFile,
+    patternRotation: parseFloat(values['pattern-rotation']),
+    patternMirror: values['pattern-mirror'],
+    patternInvert: values['pattern-invert'],
+    patternInnerRadius: parseFloat(values['pattern-inner-radius']),
+    patternOuterRadius: parseFloat(values['pattern-outer-radius']),
+    patternBandWidth: parseFloat(values['band-width']),
+    notchCount: parseFloat(values['notch-count']),
+    notchWidth: parseFloat(values['notch-width']),
+    notchDepth: parseFloat(values['notch-depth']),
+    wedgeCount: parseFloat(values['wedge-count']),
+    wedgeAngle: parseFloat(values['wedge-angle']),
+    ringCount: parseFloat(values['ring-count']),
+    ringWidth: parseFloat(values['ring-width']),
+    ringGap: parseFloat(values['ring-gap']),
+    gearTeethCount: parseFloat(values['gear-teeth']),
+    gearToothDepth: parseFloat(values['gear-tooth-depth']),
+    dashCount: parseFloat(values['dash-count']),
+    dashLength: parseFloat(values['dash-length']),
+    dashWidth: parseFloat(values['dash-width']),
+    dashInset: parseFloat(values['dash-inset']),
+    textContent: values.text,
+    textFontSize: parseFloat(values['text-size']),
+    textArcRadius: parseFloat(values['text-arc-radius']),
+    textStartAngle: parseFloat(values['text-start-angle']),
+    textFace: values['text-face'],
+    textMode: values['text-mode'],
+    textDepth: parseFloat(values['text-depth']),
+    hangingFeature: values.keychain,
+    hangingAngle: parseFloat(values['keychain-angle']),
+    hangingInset: parseFloat(values['keychain-inset']),
+    hangingHoleDiameter: parseFloat(values['keychain-diameter']),
+    hangingSlotLength: parseFloat(values['keychain-slot-length']),
+    hangingTabWall: parseFloat(values['keychain-tab-wall']),
+    pocketType: values.pocket,
+    pocketFace: values['pocket-face'],
+    pocketDiameter: parseFloat(values['pocket-diameter']),
+    pocketDepth: parseFloat(values['pocket-depth']),
+    pocketClearance: parseFloat(values['pocket-clearance']),
+    pocketWall: parseFloat(values['pocket-wall']),
+    pocketPrintInPlace: values['pocket-in-place'],
+    baseColor: values['base-color'],
+    baseExtruder: parseFloat(values['base-extruder']),
+    centerColor: values['center-color'],
+    centerExtruder: parseFloat(values['center-extruder']),
+    markingColor: values['marking-color'],
+    markingExtruder: parseFloat(values['marking-extruder']),
+    qrColor: values['qr-color'],
+    qrExtruder: parseFloat(values['qr-extruder']),
+    imageColor: values['image-color'],
+    imageExtruder: parseFloat(values['image-extruder']),
+    textColor: values['text-color'],
+    textExtruder: parseFloat(values['text-extruder']),
+    layerHeight: parseFloat(values['layer-height']),
+    reliefHeight: parseFloat(values['relief-height']),
+    qrAutoFit: values['qr-auto-fit'],
+    qrMargin: parseFloat(values['qr-margin']),
+    qrErrorCorrection: values['qr-error-correction'],
+    nozzleDiameter: parseFloat(values.nozzle),
+    qrFace: values['qr-face'],
+    qrMode: values['qr-style'],
+    qrRotation: parseFloat(values['qr-rotation']),
+    qrPositionX: parseFloat(values['qr-x']),
+    qrPositionY: parseFloat(values['qr-y']),
+    imageFace: values['image-face'],
+    imageMode: values['image-style'],
+    imageRotation: parseFloat(values['image-rotation']),
+    imagePositionX: parseFloat(values['image-x']),
+    imagePositionY: parseFloat(values['image-y']),
+    laserKerf: parseFloat(values.kerf),
+    laserNested: values.nested,
+    laserSheetWidth,
+    laserSheetHeight,
+    laserGap: parseFloat(values['sheet-gap']),
     qrCodeSettings,
     imageExtrudeSettings,
   };
 
-  console.log('Generating Makerchip with params:', {
-    ...params,
-    qrCodeSettings: { enabled: qrCodeSettings.enabled, text: qrCodeSettings.params.text },
-    imageExtrudeSettings: { enabled: imageExtrudeSettings.enabled, hasImage: !!imageExtrudeSettings.params.imageFile?.dataUrl },
+  return params;
+}
+
+type CliParams = Awaited<ReturnType<typeof buildParams>>;
+
+// Params set by options whose name is not the param name in kebab case
+const optionParamPaths: Record<string, string[]> = {
+  rounding: ['roundingRadius'],
+  'bottom-rounding': ['bottomRoundingRadius'],
+  'center-radius': ['centerCircleRadius'],
+  assembly: ['assemblyType'],
+  quality: ['quality', 'qualityTolerance'],
+  'band-width': ['patternBandWidth'],
+  'gear-teeth': ['gearTeethCount'],
+  text: ['textContent'],
+  'text-size': ['textFontSize'],
+  keychain: ['hangingFeature'],
+  'keychain-angle': ['hangingAngle'],
+  'keychain-inset': ['hangingInset'],
+  'keychain-diameter': ['hangingHoleDiameter'],
+  'keychain-slot-length': ['hangingSlotLength'],
+  'keychain-tab-wall': ['hangingTabWall'],
+  pocket: ['pocketType'],
+  'pocket-in-place': ['pocketPrintInPlace'],
+  kerf: ['laserKerf'],
+  nested: ['laserNested'],
+  sheet: ['laserSheetWidth', 'laserSheetHeight'],
+  'sheet-gap': ['laserGap'],
+  nozzle: ['nozzleDiameter'],
+  'qr-enabled': ['qrCodeSettings.enabled'],
+  'qr-content': ['qrCodeSettings.params.text'],
+  'qr-size': ['qrCodeSettings.params.size'],
+  'qr-height': ['qrCodeSettings.params.extrudeDepth'],
+  'qr-style': ['qrMode'],
+  layer: ['markings'],
+  'qr-x': ['qrPositionX'],
+  'qr-y': ['qrPositionY'],
+  'image-enabled': ['imageExtrudeSettings.enabled'],
+  'image-file': ['imageExtrudeSettings.params.imageFile'],
+  'image-mode': ['imageExtrudeSettings.params.mode'],
+  'image-height': ['imageExtrudeSettings.params.height'],
+  'image-max-width': ['imageExtrudeSettings.params.maxWidth'],
+  'image-style': ['imageMode'],
+  'image-x': ['imagePositionX'],
+  'image-y': ['imagePositionY'],
+};
+
+/**
+ * Param paths set by the options given on the command line.
+ */
+function givenParamPaths(params: CliParams): string[] {
+  const given = new Set(tokens.flatMap((token) => (token.kind === 'option' ? [token.name] : [])));
+  return [...given].flatMap((option) => {
+    const camelCase = option.replace(/-([a-z])/g, (_, char: string) => char.toUpperCase());
+    return optionParamPaths[option] ?? (camelCase in params ? [camelCase] : []);
   });
+}
+
+/**
+ * Load the --config preset, with the options given on the command line
+ * overriding it.
+ */
+async function resolveParams(flagParams: CliParams): Promise<CliParams> {
+  if (!values.config) {
+    return flagParams;
+  }
+
+  const { parsePreset, applyPreset } = await import('./src/presets');
+  const preset = parsePreset(await readFile(values.config, 'utf-8'));
+  const { params, unknownKeys } = applyPreset(flagParams, preset);
+  for (const key of unknownKeys) {
+    console.warn(`Warning: Preset key "${key}" is not a parameter and is ignored`);
+  }
+  console.log(`Loaded preset: ${values.config} (version ${preset.version})`);
 
-  if (ext === '.3mf') {
+  for (const path of givenParamPaths(flagParams)) {
+    // An image file that could not be loaded leaves the preset's image in place
+    if (path === 'imageExtrudeSettings.params.imageFile' && !flagParams.imageExtrudeSettings.params.imageFile?.dataUrl) {
+      continue;
+    }
+    const keys = path.split('.');
+    const lastKey = keys.pop()!;
+    const source = keys.reduce((object: any, key) => object[key], flagParams);
+    const target = keys.reduce((object: any, key) => object[key], params);
+    target[lastKey] = structuredClone(source[lastKey]);
+  }
+  return params;
+}
+
+/**
+ * Print the validation diagnostics, and stop on errors, or on warnings with --strict.
+ */
+async function checkParams(params: CliParams, label = 'Makerchip') {
+  const { validateMakerchipParams, validateSingleExtruderParams, formatDiagnostics, hasErrors } = await import('./src/validation');
+  const diagnostics = validateMakerchipParams(params as any);
+  if (values['single-extruder']) {
+    diagnostics.push(...validateSingleExtruderParams(params as any));
+  }
+  if (diagnostics.length === 0) {
+    return;
+  }
+
+  console.warn(`${label}:\n${formatDiagnostics(diagnostics)}`);
+  if (hasErrors(diagnostics)) {
+    throw new Error(`${label} has invalid params`);
+  }
+  if (values.strict) {
+    throw new Error(`${label} has warnings (--strict)`);
+  }
+}
+
+/**
+ * Generate a Makerchip and write it to a file, in the format of its extension.
+ */
+async function exportChip(params: CliParams, outputFile: string) {
+  const ext = extname(outputFile).toLowerCase() as OutputFormat;
+  await checkParams(params, outputFile);
+  // The single-extruder stack may adjust the chip height
+  let height = params.height;
+
+  if (ext === '.3mf' && values['single-extruder']) {
+    const { singleExtruderThreeMfExport } = await import('./src/threeMfExport');
+    const result = await singleExtruderThreeMfExport(params as any);
+    await writeFile(outputFile, Buffer.from(result.data as ArrayBuffer));
+    console.log(`✓ Generated ${outputFile}`);
+
+    // Report the color changes, for slicers that do not read them from the 3MF
+    if (result.height !== params.height) {
+      height = result.height;
+      console.log(`Chip height adjusted to ${height.toFixed(2)}mm to match the layer height`);
+    }
+    for (const event of result.colorChanges) {
+      console.log(`🎨 Change filament at Z=${event.z.toFixed(2)}mm: ${event.message} (${event.color})`);
+    }
+  } else if (ext === '.3mf') {
     // Use the 3MF exporter directly
     const { threeMfExport } = await import('./src/threeMfExport');
     const result = await threeMfExport(params as any);
     await writeFile(outputFile, Buffer.from(result.data as ArrayBuffer));
     console.log(`✓ Generated ${outputFile}`);
+  } else if (ext === '.stl' || ext === '.zip') {
+    const { stlExport, asciiStlExport, stlZipExport } = await import('./src/stlExport');
+    const exporter = ext === '.zip' ? stlZipExport : values.ascii ? asciiStlExport : stlExport;
+    const result = await exporter(params as any);
+    const data = result.data as ArrayBuffer | string;
+    await writeFile(outputFile, typeof data === 'string' ? data : Buffer.from(data));
+    console.log(`✓ Generated ${outputFile}`);
+  } else if (ext === '.png') {
+    const { renderMakerchipPng } = await import('./src/thumbnail');
+    const size = parseInt(values['png-size'], 10);
+    if (!(size > 0)) {
+      throw new Error(`Invalid PNG size: ${values['png-size']}`);
+    }
+    await writeFile(outputFile, await renderMakerchipPng(params as any, size));
+    console.log(`✓ Generated ${outputFile}`);
+  } else if (ext === '.svg' || ext === '.dxf') {
+    // Write one file per layer or sheet, named after the output file
+    const { generateLaserLayers, layoutLaserFiles, generateLaserSvg, generateLaserDxf } = await import('./src/laserExport');
+    const layers = await generateLaserLayers(params as any);
+    const { files, warnings } = layoutLaserFiles(layers, params as any);
+    for (const warning of warnings) {
+      console.warn(`Warning: ${warning}`);
+    }
+
+    const stem = outputFile.slice(0, -ext.length);
+    for (const file of files) {
+      const fileName = `${stem}-${file.name}${ext}`;
+      const content = ext === '.svg'
+        ? generateLaserSvg(file.layers, file.width, file.height)
+        : generateLaserDxf(file.layers);
+      await writeFile(fileName, content);
+      console.log(`✓ Generated ${fileName}`);
+    }
+  } else if (ext === '.obj') {
+    // Write the OBJ and its materials side by side
+    const { assembleMakerchipParts } = await import('./src/assembly');
+    const { generateObj } = await import('./src/objExport');
+    const mtlFile = outputFile.slice(0, -ext.length) + '.mtl';
+    const parts = await assembleMakerchipParts(params as any, 'printable');
+    const { obj, mtl } = generateObj(parts, params as any, basename(mtlFile));
+    await writeFile(outputFile, obj);
+    await writeFile(mtlFile, mtl);
+    console.log(`✓ Generated ${outputFile} and ${mtlFile}`);
   } else {
     // Generate the manifold for GLB
+    const makerchipModule = await import('./src/main');
     const result = await makerchipModule.default(params) as Manifold;
 
     if (!result || typeof (result as any).getMesh !== 'function') {
-      console.error('Error: Script did not return a valid Manifold object');
-      process.exit(1);
+      throw new Error('Script did not return a valid Manifold object');
     }
 
     console.log('Converting to GLTF document...');
@@ -210,6 +869,260 @@ async function main() {
 
     console.log(`✓ Generated ${outputFile}`);
   }
+
+  // Report where to pause for print-in-place inserts
+  const { generatePocket } = await import('./src/pocket');
+  const pocket = generatePocket({ ...params, height } as any);
+  if (pocket?.pauseHeight !== undefined) {
+    console.log(`⏸ Pause the print at Z=${pocket.pauseHeight.toFixed(2)}mm to insert the ${pocket.insertName}`);
+  }
+
+  if (wantsReport()) {
+    await reportChip(params, outputFile, isBatch ? undefined : values['report-json']);
+  }
+}
+
+/**
+ * Read a CSV or JSON manifest, by file extension.
+ */
+async function readManifest(manifestPath: string) {
+  const { parseManifest } = await import('./src/batch');
+  const format = extname(manifestPath).toLowerCase() === '.json' ? 'json' : 'csv';
+  return parseManifest(await readFile(manifestPath, 'utf-8'), format);
+}
+
+const warnedManifestKeys = new Set<string>();
+
+/**
+ * Apply a manifest row to the command line params.
+ */
+async function rowParams(baseParams: CliParams, row: ManifestRow): Promise<CliParams> {
+  const { applyOverrides } = await import('./src/batch');
+  const { params, unknownKeys } = applyOverrides(baseParams, row);
+  for (const key of unknownKeys.filter((key) => !warnedManifestKeys.has(key))) {
+    console.warn(`Warning: Manifest column "${key}" is not a parameter; it is only used in filenames`);
+    warnedManifestKeys.add(key);
+  }
+
+  // Manifest rows give SVG files as paths
+  if (typeof params.markingsFile === 'string') {
+    params.markingsFile = await loadSvgFile(params.markingsFile, 'Pattern');
+  }
+  if (typeof params.outlineFile === 'string') {
+    params.outlineFile = await loadSvgFile(params.outlineFile, 'Outline');
+  }
+  return params;
+}
+
+/**
+ * Generate one chip per manifest row, continuing past rows that fail.
+ */
+async function runBatch(baseParams: CliParams, manifestPath: string) {
+  const { renderFilename, formatBatchReport } = await import('./src/batch');
+
+  const rows = await readManifest(manifestPath);
+  const outDir = values['out-dir'];
+  await mkdir(outDir, { recursive: true });
+
+  console.log(`Generating ${rows.length} chips from ${manifestPath}...`);
+
+  const results: BatchResult[] = [];
+  const usedFiles = new Set<string>();
+
+  for (const [i, row] of rows.entries()) {
+    const rowNumber = i + 1;
+    try {
+      const params = await rowParams(baseParams, row);
+      const fileName = renderFilename(values.name, row, params, rowNumber, rows.length);
+      if (usedFiles.has(fileName)) {
+        throw new Error(`Filename ${fileName} is already used by another row`);
+      }
+      usedFiles.add(fileName);
+
+      const file = join(outDir, fileName);
+      await exportChip(params, file);
+      results.push({ row: rowNumber, file });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`✗ Row ${rowNumber}: ${message}`);
+      results.push({ row: rowNumber, error: message });
+    }
+  }
+
+  const reportFile = join(outDir, 'batch-report.json');
+  const failedCount = results.filter((result) => result.error).length;
+  await writeFile(
+    reportFile,
+    JSON.stringify({ manifest: manifestPath, total: rows.length, failed: failedCount, results }, null, 2)
+  );
+
+  console.log(formatBatchReport(results));
+  console.log(`Report written to ${reportFile}`);
+
+  if (failedCount > 0) {
+    process.exitCode = 1;
+  }
+}
+
+/**
+ * Lay out copies of one chip, or the chips of a manifest, on one build plate.
+ */
+async function runPlate(baseParams: CliParams, outputFile: string) {
+  const { plateThreeMfExport } = await import('./src/threeMfExport');
+
+  let chipParams: CliParams[];
+  if (values.manifest) {
+    // Load and check the rows one at a time, so an error names its row
+    const rows = await readManifest(values.manifest);
+    chipParams = [];
+    for (const [i, row] of rows.entries()) {
+      let params: CliParams;
+      try {
+        params = await rowParams(baseParams, row);
+      } catch (error) {
+        throw new Error(`Row ${i + 1}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+      await checkParams(params, `Row ${i + 1}`);
+      chipParams.push(params);
+    }
+  } else {
+    const copies = parseInt(values.copies!, 10);
+    if (!(copies > 0)) {
+      throw new Error(`Invalid number of copies: ${values.copies}`);
+    }
+    // Copies share their params, so the design is checked once
+    await checkParams(baseParams);
+    chipParams = Array.from({ length: copies }, () => baseParams);
+  }
+
+  const [bedWidth, bedDepth] = values.bed.toLowerCase().split('x').map(Number);
+  if (!bedWidth || !bedDepth) {
+    throw new Error(`Invalid bed size: ${values.bed} (expected <width>x<depth>, e.g. 256x256)`);
+  }
+
+  console.log(`Laying out ${chipParams.length} chips on a ${bedWidth} × ${bedDepth} mm plate...`);
+
+  const result = await plateThreeMfExport(chipParams as any, {
+    bedWidth,
+    bedDepth,
+    gap: parseFloat(values.gap),
+    packing: values.packing as PlatePacking,
+  });
+  for (const warning of result.warnings) {
+    console.warn(`Warning: ${warning}`);
+  }
+
+  await writeFile(outputFile, Buffer.from(result.data as ArrayBuffer));
+  console.log(`✓ Generated ${outputFile}`);
+}
+
+/**
+ * Print every built-in pattern, one per line.
+ */
+async function listPatterns() {
+  const { patternCatalog } = await import('./src/patterns');
+  const idWidth = Math.max(...patternCatalog.map((pattern) => pattern.id.length));
+  const nameWidth = Math.max(...patternCatalog.map((pattern) => pattern.name.length));
+  for (const pattern of patternCatalog) {
+    const symmetry = pattern.symmetry > 0 ? `${pattern.symmetry}-fold` : 'round';
+    const aliases = pattern.aliases.length > 0 ? `  (was ${pattern.aliases.join(', ')})` : '';
+    console.log(
+      `${pattern.id.padEnd(idWidth)}  ${pattern.name.padEnd(nameWidth)}  ${symmetry.padStart(7)}  ${pattern.tags.join(', ')}${aliases}`
+    );
+  }
+}
+
+/**
+ * Print a pattern's details and write it as SVG, or as a PNG preview.
+ */
+async function showPattern(id: string, outputPath = `${id}.svg`) {
+  const { resolvePattern, patternSvg } = await import('./src/patterns');
+  const pattern = resolvePattern(id);
+  const radius = parseFloat(values.radius);
+
+  console.log(`${pattern.name} (${pattern.id})`);
+  console.log(`  Tags:          ${pattern.tags.join(', ')}`);
+  console.log(`  Symmetry:      ${pattern.symmetry > 0 ? `${pattern.symmetry}-fold` : 'round'}`);
+  console.log(
+    `  Center circle: ${pattern.centerRadius} × chip radius (${(pattern.centerRadius * radius).toFixed(1)} mm at radius ${radius} mm)`
+  );
+  console.log(`  Author:        ${pattern.author}`);
+  if (pattern.attribution) {
+    console.log(`  Attribution:   ${pattern.attribution}`);
+  }
+  if (pattern.aliases.length > 0) {
+    console.log(`  Aliases:       ${pattern.aliases.join(', ')}`);
+  }
+
+  const outputExt = extname(outputPath).toLowerCase();
+  if (outputExt === '.png') {
+    const { renderPatternPng } = await import('./src/thumbnail');
+    const size = parseInt(values['png-size'], 10);
+    if (!(size > 0)) {
+      throw new Error(`Invalid PNG size: ${values['png-size']}`);
+    }
+    await writeFile(outputPath, await renderPatternPng(pattern.id, size));
+  } else if (outputExt === '.svg') {
+    await writeFile(outputPath, patternSvg(pattern));
+  } else {
+    throw new Error(`Pattern previews must be written as .svg or .png, got ${outputPath}`);
+  }
+  console.log(`✓ Wrote ${outputPath}`);
+}
+
+async function main() {
+  console.log('Initializing manifold...');
+
+  // Initialize manifold-3d (must happen before importing maker modules)
+  const manifoldModule = await import('@cadit-app/manifold-3d');
+  await manifoldModule.default();
+
+  if (positionals[0] === 'list-patterns') {
+    await listPatterns();
+    return;
+  }
+  if (positionals[0] === 'show-pattern') {
+    await showPattern(positionals[1], positionals[2]);
+    return;
+  }
+
+  console.log('Loading Makerchip module...');
+
+  const params = await resolveParams(await buildParams());
+
+  if (values['dump-config']) {
+    const { serializePreset } = await import('./src/presets');
+    await writeFile(values['dump-config'], serializePreset(params as any));
+    console.log(`✓ Wrote preset ${values['dump-config']}`);
+  }
+
+  if (isDumpOnly) {
+    if (wantsReport()) {
+      await checkParams(params);
+      await reportChip(params, 'Makerchip', values['report-json']);
+    }
+    return;
+  }
+
+  if (isBatch) {
+    await runBatch(params, positionals[1]);
+    return;
+  }
+
+  if (isPlate) {
+    await runPlate(params, outputFile);
+    return;
+  }
+
+  console.log('Generating Makerchip with params:', {
+    ...params,
+    markingsFile: params.markingsFile?.fileName,
+    outlineFile: params.outlineFile?.fileName,
+    qrCodeSettings: { enabled: params.qrCodeSettings.enabled, text: params.qrCodeSettings.params.text },
+    imageExtrudeSettings: { enabled: params.imageExtrudeSettings.enabled, hasImage: !!params.imageExtrudeSettings.params.imageFile?.dataUrl },
+  });
+
+  await exportChip(params, outputFile);
 }
 
 main().catch((err) => {
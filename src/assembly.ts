@@ -3,13 +3,43 @@
  */
 
 import type { Manifold } from '@cadit-app/manifold-3d';
-import { roundedDisk, generateMarkingShape, generateCenterDisk } from './disk';
+import { roundedDisk, roundedOutline, generateMarkingShape, generateCenterDisk } from './disk';
+import { generateOutline, outlineRadius } from './outline';
+import { generateTextShape } from './text';
+import { generateHangingFeature, hangingCutter } from './hanging';
+import { generatePocket } from './pocket';
+import { fittedQrParams } from './qrFit';
+import { inlayParts } from './inlay';
+import { recessAbove, recessBelow, trimLayer } from './relief';
+import { embedPlacements, placeEmbed } from './embedPlacement';
+import { resolvePatternLayers } from './patternLayers';
+import { qualityTolerance } from './quality';
+import type { EmbedPlacement } from './embedPlacement';
 import type { MakerChipParams } from './params';
+import { decodeSvgDataUrl } from './utils';
 import qrCodeMaker from '@cadit-app/qr-code';
 import { makeCrossSection } from '@cadit-app/image-extrude';
 
 export type AssemblyType = 'flat' | 'printable';
 
+/**
+ * What a part is, used to name it and pick its color and extruder.
+ */
+export type PartRole = 'base' | 'center' | 'marking' | 'qr' | 'image' | 'text';
+
+export type MakerchipPart = {
+  role: PartRole;
+  shape: Manifold;
+  /** Pattern layer number, when the markings are a list of layers */
+  layer?: number;
+};
+
+// A QR code or image on one face of the chip
+type PlacedEmbed = {
+  placement: EmbedPlacement;
+  shape: Manifold;
+};
+
 /**
  * Assembles all shapes for the Makerchip.
  * 
@@ -21,43 +51,122 @@ export async function assembleMakerchipShapes(
   params: MakerChipParams,
   assemblyType: AssemblyType
 ): Promise<Manifold[]> {
+  const parts = await assembleMakerchipParts(params, assemblyType);
+  return parts.map((part) => part.shape);
+}
+
+/**
+ * Assembles all parts for the Makerchip, each tagged with its role.
+ * 
+ * @param params - The parameters for the Makerchip
+ * @param assemblyType - 'flat' for preview/export, 'printable' for 3D printing
+ * @returns An array of parts, in export order
+ */
+export async function assembleMakerchipParts(
+  params: MakerChipParams,
+  assemblyType: AssemblyType
+): Promise<MakerchipPart[]> {
+  // Curves are divided to the chord tolerance of the selected quality
+  const tolerance = qualityTolerance(params);
+
+  // Create chip outline (undefined for the default circle)
+  const outline = await generateOutline({ ...params, tolerance });
+
   // Create chip base
-  const disk = roundedDisk({
-    radius: params.radius,
-    roundingRadius: params.roundingRadius,
-    height: params.height,
-  });
+  let disk = outline
+    ? roundedOutline({
+        outline,
+        roundingRadius: params.roundingRadius,
+        height: params.height,
+        edge: params,
+        tolerance,
+      })
+    : roundedDisk({
+        radius: params.radius,
+        roundingRadius: params.roundingRadius,
+        height: params.height,
+        edge: params,
+        tolerance,
+      });
 
-  // Create marking pattern
-  const marking = await generateMarkingShape({
-    shapeName: params.markings,
-    radius: params.radius,
-    roundingRadius: params.roundingRadius,
-    height: params.height,
-  });
+  // Where each layer's top face sits; raised layers are rounded to their own top
+  const { height } = params;
+  const patternLayers = resolvePatternLayers(params);
+  const markingTops = patternLayers.map((layer) => height + layer.offset);
+  const markingTop = Math.max(...markingTops);
+  const centerTop = height + params.centerOffset;
+
+  // Patterns fill the outline's corners, and are clipped to it
+  const patternRadius = outline ? outlineRadius(outline) : params.radius;
+
+  // Create the marking pattern layers (a custom SVG file overrides a single built-in style,
+  // or is used by the layers whose pattern is 'custom')
+  const customSvgUrl = params.markingsFile?.dataUrl;
+  let markings: Manifold[] = [];
+  for (const [i, layer] of patternLayers.entries()) {
+    const svgUrl = patternLayers.length === 1 || layer.pattern === 'custom' ? customSvgUrl : undefined;
+    const marking = await generateMarkingShape({
+      shapeName: layer.pattern,
+      svgContent: svgUrl ? decodeSvgDataUrl(svgUrl) : undefined,
+      patternParams: params,
+      transform: { ...layer, centerCircleRadius: params.centerCircleRadius },
+      radius: patternRadius,
+      roundingRadius: params.roundingRadius,
+      height: markingTops[i],
+      outline,
+      edge: params,
+      tolerance,
+    });
+    markings.push(trimLayer(marking, markingTops[i], layer.thickness, height));
+  }
+
+  // Where layers overlap the later layer wins, so earlier layers are cut away within its footprint
+  for (let i = 1; i < markings.length; i++) {
+    const footprint = recessAbove(markings[i], -1, Math.max(height, markingTop) + 2);
+    for (let j = 0; j < i; j++) {
+      markings[j] = markings[j].subtract(footprint);
+    }
+  }
 
   // Create center disk
-  const centerDisk = generateCenterDisk({
+  let centerDisk = generateCenterDisk({
     centerCircleRadius: params.centerCircleRadius,
-    height: params.height,
+    height: centerTop,
+    roundingRadius: params.roundingRadius,
+    outline,
+    edge: params,
+    tolerance,
   });
+  centerDisk = trimLayer(centerDisk, centerTop, params.centerThickness, height);
 
-  // Generate QR code if enabled
-  let qrCode: Manifold | undefined;
+  // Create text, and cut the recess for debossed text from the chip parts
+  let text = generateTextShape({ ...params, height: params.height });
+  if (text && params.textMode === 'deboss') {
+    disk = disk.subtract(text);
+    markings = markings.map((marking) => marking.subtract(text!));
+    centerDisk = centerDisk.subtract(text);
+  }
+
+  // Generate the QR code on each of its faces, deep enough to reach the surface below it
+  const qrCodes: PlacedEmbed[] = [];
   if (params.qrCodeSettings?.enabled) {
     try {
-      // qrCodeMaker is a callable ScriptModule - call it directly with params
-      qrCode = await qrCodeMaker(params.qrCodeSettings.params) as Manifold;
+      for (const placement of embedPlacements(params, 'qr', params.qrCodeSettings.params.extrudeDepth)) {
+        // qrCodeMaker is a callable ScriptModule - call it directly with params
+        const qrCode = await qrCodeMaker({ ...fittedQrParams(params), extrudeDepth: placement.thickness }) as Manifold;
+        qrCodes.push({ placement, shape: placeEmbed(qrCode, placement, height) });
+      }
     } catch (error) {
-      console.error('Error generating QR code:', error);
+      throw new Error(`Could not generate the QR code: ${(error as Error).message ?? error}`);
     }
   }
 
-  // Generate image extrude if enabled
+  // Generate image extrude if enabled and an image is set (validation warns otherwise)
   // image-extrude's default export returns SceneOutput (2D shapes), not a Manifold.
   // Use makeCrossSection + extrude to get a proper Manifold with .mirror()/.translate() etc.
-  let imageExtrude: Manifold | undefined;
-  if (params.imageExtrudeSettings?.enabled) {
+  let images: PlacedEmbed[] = [];
+  const imageFile = (params.imageExtrudeSettings?.params as any)?.imageFile;
+  if (params.imageExtrudeSettings?.enabled && (imageFile?.dataUrl || imageFile?.imageUrl)) {
     try {
       const ieParams = params.imageExtrudeSettings.params as any;
       const crossSection = await makeCrossSection({
@@ -66,48 +175,142 @@ export async function assembleMakerchipShapes(
         maxWidth: ieParams.maxWidth,
         despeckleSize: ieParams.despeckleSize,
       });
-      imageExtrude = crossSection.extrude(ieParams.height);
+      images = embedPlacements(params, 'image', ieParams.height).map((placement) => ({
+        placement,
+        shape: placeEmbed(crossSection.extrude(placement.thickness), placement, height),
+      }));
     } catch (error) {
-      console.error('Error generating image extrude:', error);
+      throw new Error(`Could not generate the image: ${(error as Error).message ?? error}`);
     }
   }
 
-  const allShapes: Manifold[] = [];
+  // Clear the space over recessed layers, so the layers below don't cover them
+  const embedTops = [...qrCodes, ...images].map(({ shape }) => shape.boundingBox().max[2]);
+  const clearance = Math.max(height, markingTop, centerTop, ...embedTops) + 1;
+  markings.forEach((marking, i) => {
+    if (markingTops[i] < height) {
+      disk = disk.subtract(recessAbove(marking, markingTops[i], clearance));
+    }
+  });
+  if (centerTop < Math.max(height, markingTop)) {
+    const recess = recessAbove(centerDisk, centerTop, clearance);
+    disk = disk.subtract(recess);
+    markings = markings.map((marking) => marking.subtract(recess));
+  }
 
-  if (assemblyType === 'flat') {
-    // Spread shapes out for preview
-    const offset = 2 * params.radius + 1;
-    allShapes.push(disk);
-    allShapes.push(marking.translate([offset, 0, 0]));
-    allShapes.push(centerDisk.translate([0, offset, 0]));
-    
-    if (qrCode) {
-      const qrSize = params.qrCodeSettings.params.size || 18;
-      allShapes.push(qrCode.translate([-(params.radius + qrSize / 2 + 1), 0, 0]));
+  // Cut the debossed embeds into the chip parts, and clear the space over recessed ones
+  for (const { shape, placement } of [...qrCodes, ...images]) {
+    const surface = placement.face === 'top' ? height + placement.outer : -placement.outer;
+    const covered = placement.face === 'top' ? surface < Math.max(height, markingTop, centerTop) : surface > 0;
+    const recess = covered
+      ? placement.face === 'top'
+        ? recessAbove(shape, surface, clearance)
+        : recessBelow(shape, surface, clearance)
+      : undefined;
+    const cut = placement.mode === 'deboss' ? (recess ? shape.add(recess) : shape) : recess;
+    if (cut) {
+      disk = disk.subtract(cut);
+      markings = markings.map((marking) => marking.subtract(cut));
+      centerDisk = centerDisk.subtract(cut);
     }
-    
-    if (imageExtrude) {
-      const bounds = imageExtrude.boundingBox();
-      const height = bounds.max[1] - bounds.min[1];
-      allShapes.push(imageExtrude.translate([0, -(params.radius + height / 2 + 1), 0]));
+  }
+
+  // Cut the insert pocket from the chip parts
+  const pocket = generatePocket({ ...params, tolerance });
+  if (pocket) {
+    if (qrCodes.some(({ shape }) => !shape.intersect(pocket.shape).isEmpty())) {
+      throw new Error(
+        `The ${pocket.insertName} pocket cuts into the QR code. Move the pocket to the other face or use a thicker chip.`
+      );
+    }
+
+    disk = disk.subtract(pocket.shape);
+    markings = markings.map((marking) => marking.subtract(pocket.shape));
+    centerDisk = centerDisk.subtract(pocket.shape);
+    text = text?.subtract(pocket.shape);
+    images = images.map((image) => ({ ...image, shape: image.shape.subtract(pocket.shape) }));
+  }
+
+  // Add the keychain hole, slot or tab loop to every part
+  const hangingFeature = generateHangingFeature({ ...params, tolerance });
+  if (hangingFeature) {
+    if (qrCodes.some(({ shape }) => !shape.project().intersect(hangingFeature.cut).isEmpty())) {
+      throw new Error(
+        `The ${params.hangingFeature} at ${params.hangingAngle}° overlaps the QR code. ` +
+        'Move it further out with a smaller hanging inset, or shrink or move the QR code.'
+      );
+    }
+
+    const cutter = hangingCutter(hangingFeature.cut, params.height);
+    if (hangingFeature.add) {
+      disk = disk.add(hangingFeature.add);
+    }
+    disk = disk.subtract(cutter);
+    markings = markings.map((marking) => marking.subtract(cutter));
+    centerDisk = centerDisk.subtract(cutter);
+    text = text?.subtract(cutter);
+    images = images.map((image) => ({ ...image, shape: image.shape.subtract(cutter) }));
+  }
+
+  // One part per pattern layer, in its color role; layers that were cut away completely are left out.
+  // Layer lists number every part, so a layer never shares its name with another part of its role
+  const markingParts = markings
+    .map((shape, i): MakerchipPart => ({
+      role: patternLayers[i].role,
+      shape,
+      layer: Array.isArray(params.markings) ? i + 1 : undefined,
+    }))
+    .filter(({ shape }) => !shape.isEmpty());
+
+  const allParts: MakerchipPart[] = [];
+
+  if (assemblyType === 'flat') {
+    // Spread shapes out for preview, clear of any outline corners
+    const diskBounds = disk.boundingBox();
+    const offset = Math.max(diskBounds.max[0] - diskBounds.min[0], diskBounds.max[1] - diskBounds.min[1]) + 1;
+    allParts.push({ role: 'base', shape: disk });
+    markingParts.forEach((part, i) => {
+      allParts.push({ ...part, shape: part.shape.translate([offset * (i + 1), 0, 0]) });
+    });
+    allParts.push({ role: 'center', shape: centerDisk.translate([0, offset, 0]) });
+
+    // Embeds keep their placement on the face, dropped onto the bed beside the chip;
+    // a second face's copy goes one chip further out
+    const layFlat = (shape: Manifold, x: number, y: number) => shape.translate([x, y, -shape.boundingBox().min[2]]);
+    qrCodes.forEach(({ shape }, i) => {
+      allParts.push({ role: 'qr', shape: layFlat(shape, -offset * (i + 1), 0) });
+    });
+    images.forEach(({ shape }, i) => {
+      allParts.push({ role: 'image', shape: layFlat(shape, 0, -offset * (i + 1)) });
+    });
+
+    if (text) {
+      // Drop the text onto the bed next to the other parts
+      allParts.push({ role: 'text', shape: layFlat(text, offset, offset) });
     }
   } else if (assemblyType === 'printable') {
     // Stack shapes for printing
-    allShapes.push(disk);
-    allShapes.push(centerDisk);
-    allShapes.push(marking);
+    allParts.push({ role: 'base', shape: disk });
+    allParts.push({ role: 'center', shape: centerDisk });
+    allParts.push(...markingParts);
     
-    if (qrCode) {
-      // QR code is always on top
-      const zTranslate = params.height - qrCode.boundingBox().max[2];
-      allShapes.push(qrCode.translate([0, 0, zTranslate]));
+    if (qrCodes.length > 0) {
+      allParts.push({ role: 'qr', shape: qrCodes.map(({ shape }) => shape).reduce((a, b) => a.add(b)) });
     }
     
-    if (imageExtrude) {
-      // Image extrude is always on bottom (flip it)
-      allShapes.push(imageExtrude.mirror([1, 0, 0]));
+    if (images.length > 0) {
+      allParts.push({ role: 'image', shape: images.map(({ shape }) => shape).reduce((a, b) => a.add(b)) });
+    }
+
+    if (text) {
+      allParts.push({ role: 'text', shape: text });
+    }
+
+    if (params.inlay) {
+      // Make the parts disjoint, so they fit together into a flush chip
+      return inlayParts(allParts, params);
     }
   }
 
-  return allShapes;
+  return allParts;
 }
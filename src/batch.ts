@@ -0,0 +1,193 @@
+/**
+ * Batch generation helpers: manifest parsing, per-row param overrides,
+ * output filename templates and the summary report.
+ */
+
+export type ManifestRow = Record<string, unknown>;
+
+export type BatchResult = {
+  /** 1-based row number in the manifest */
+  row: number;
+  file?: string;
+  error?: string;
+};
+
+/**
+ * Parse CSV content with a header row. Supports quoted fields with
+ * embedded commas, newlines and doubled quotes.
+ */
+export function parseCsv(content: string): ManifestRow[] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') {
+        i++;
+      }
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const [header, ...rows] = records.filter((r) => r.some((value) => value.trim() !== ''));
+  if (!header) {
+    return [];
+  }
+
+  const keys = header.map((key) => key.trim());
+  return rows.map((values) =>
+    Object.fromEntries(
+      keys
+        .map((key, i) => [key, values[i]?.trim() ?? ''] as const)
+        // Empty cells keep the base value
+        .filter(([key, value]) => key !== '' && value !== '')
+    )
+  );
+}
+
+/**
+ * Parse a CSV or JSON manifest. JSON manifests are an array of row objects.
+ */
+export function parseManifest(content: string, format: 'csv' | 'json'): ManifestRow[] {
+  if (format === 'csv') {
+    return parseCsv(content);
+  }
+
+  const parsed = JSON.parse(content);
+  if (!Array.isArray(parsed) || parsed.some((row) => typeof row !== 'object' || row === null)) {
+    throw new Error('JSON manifest must be an array of objects');
+  }
+  return parsed;
+}
+
+/**
+ * Flattens nested row objects to dot paths, e.g. { qrCodeSettings: { enabled: true } }
+ * becomes { 'qrCodeSettings.enabled': true }.
+ */
+function flattenRow(row: ManifestRow, prefix = ''): [string, unknown][] {
+  return Object.entries(row).flatMap(([key, value]) =>
+    value !== null && typeof value === 'object' && !Array.isArray(value)
+      ? flattenRow(value as ManifestRow, `${prefix}${key}.`)
+      : [[`${prefix}${key}`, value] as [string, unknown]]
+  );
+}
+
+/**
+ * Coerces a manifest value to the type of the value it replaces.
+ */
+function coerceValue(path: string, value: unknown, current: unknown): unknown {
+  if (typeof current === 'number') {
+    const number = typeof value === 'number' ? value : Number(value);
+    if (Number.isNaN(number)) {
+      throw new Error(`Invalid number for ${path}: ${value}`);
+    }
+    return number;
+  }
+  if (typeof current === 'boolean' && typeof value === 'string') {
+    const normalized = value.toLowerCase();
+    if (!['true', 'false', '1', '0', 'yes', 'no'].includes(normalized)) {
+      throw new Error(`Invalid boolean for ${path}: ${value}`);
+    }
+    return ['true', '1', 'yes'].includes(normalized);
+  }
+  if (typeof current === 'string' && typeof value !== 'string' && !Array.isArray(value)) {
+    return String(value);
+  }
+  return value;
+}
+
+/**
+ * Returns a copy of `base` with the row's values applied. Keys may be dot paths
+ * into nested params. Keys that match no param are returned as `unknownKeys`,
+ * so they can still be used in filename templates.
+ */
+export function applyOverrides<T extends object>(
+  base: T,
+  row: ManifestRow
+): { params: T; unknownKeys: string[] } {
+  const params = structuredClone(base);
+  const unknownKeys: string[] = [];
+
+  for (const [path, value] of flattenRow(row)) {
+    const keys = path.split('.');
+    let target: Record<string, unknown> | undefined = params as Record<string, unknown>;
+    for (const key of keys.slice(0, -1)) {
+      const next: unknown = target?.[key];
+      target = next !== null && typeof next === 'object' ? (next as Record<string, unknown>) : undefined;
+    }
+
+    const lastKey = keys[keys.length - 1];
+    if (!target || !(lastKey in target)) {
+      unknownKeys.push(path);
+      continue;
+    }
+    target[lastKey] = coerceValue(path, value, target[lastKey]);
+  }
+
+  return { params, unknownKeys };
+}
+
+/**
+ * Renders an output filename template. `{index}` is the zero-padded row number,
+ * any other `{key}` is looked up in the row first, then in the params.
+ */
+export function renderFilename(
+  template: string,
+  row: ManifestRow,
+  params: object,
+  index: number,
+  total: number
+): string {
+  const flatRow = Object.fromEntries(flattenRow(row));
+  const flatParams = Object.fromEntries(flattenRow(params as ManifestRow));
+
+  return template.replace(/\{([^}]+)\}/g, (_, key: string) => {
+    if (key === 'index') {
+      return String(index).padStart(String(total).length, '0');
+    }
+    const value = key in flatRow ? flatRow[key] : flatParams[key];
+    if (value === undefined) {
+      throw new Error(`Unknown filename template field: {${key}}`);
+    }
+    // Keep filenames portable
+    return String(value).replace(/[^A-Za-z0-9._-]+/g, '_');
+  });
+}
+
+/**
+ * Formats the batch results as a plain-text summary.
+ */
+export function formatBatchReport(results: BatchResult[]): string {
+  const failed = results.filter((result) => result.error);
+  const lines = [`${results.length - failed.length} of ${results.length} chips generated`];
+  for (const result of failed) {
+    lines.push(`  ✗ Row ${result.row}: ${result.error}`);
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,101 @@
+/**
+ * Single-extruder color changes: restacks the printable parts into color
+ * bands and works out the Z heights where the filament has to be swapped.
+ */
+
+import { assembleMakerchipParts } from './assembly';
+import type { MakerchipPart } from './assembly';
+import { partMaterial, partRoleLabels } from './materials';
+import type { MakerChipParams } from './params';
+import { defaultReliefParams } from './relief';
+import type { LayerEvent } from './slicerMetadata';
+
+export type ColorChangeParams = {
+  /** Layer height the chip will be sliced with (mm) */
+  layerHeight: number;
+  /** How far the marking and center stand above the base for single-extruder prints (mm) */
+  reliefHeight: number;
+};
+
+export const defaultColorChangeParams: ColorChangeParams = {
+  layerHeight: 0.2,
+  reliefHeight: 0.6,
+};
+
+export type SingleExtruderStack = {
+  parts: MakerchipPart[];
+  /** Color changes, in print order */
+  events: LayerEvent[];
+  /** The params the stack was built with, with the chip height snapped to the layer height */
+  params: MakerChipParams;
+};
+
+/**
+ * Rounds a height to a whole number of layers, keeping at least one layer.
+ */
+export function snapToLayer(z: number, layerHeight: number): number {
+  const layers = Math.max(1, Math.round(z / layerHeight));
+  // Drop floating point noise, so 15 × 0.2 is 3 rather than 3.0000000000000004
+  return Number((layers * layerHeight).toFixed(6));
+}
+
+/**
+ * Stacks the chip in color bands for printers with one nozzle: the base, then
+ * the marking and center raised as a relief on the top face, then the QR code
+ * on top of the relief. Each band starts on a layer boundary, where a color
+ * change is inserted. Top-face text prints with the relief; bottom-face parts
+ * print with the base.
+ */
+export async function assembleSingleExtruderParts(params: MakerChipParams): Promise<SingleExtruderStack> {
+  const { layerHeight } = params;
+  if (!(layerHeight > 0)) {
+    throw new Error(`Invalid layer height: ${layerHeight}`);
+  }
+
+  const height = snapToLayer(params.height, layerHeight);
+  const reliefHeight = snapToLayer(params.reliefHeight, layerHeight);
+  const reliefTop = height + reliefHeight;
+  // The relief is cut from overlapping parts, so inlays, per-layer relief and the rim lip do not
+  // apply, and the QR code is raised onto the top face to be lifted onto the relief
+  const stackParams = {
+    ...params,
+    ...defaultReliefParams,
+    markings: Array.isArray(params.markings)
+      ? params.markings.map((layer) => ({ ...layer, offset: undefined, thickness: undefined }))
+      : params.markings,
+    height,
+    reliefHeight,
+    rimLipHeight: 0,
+    inlay: false,
+    qrFace: 'top' as const,
+    qrMode: 'emboss' as const,
+  };
+
+  const printableParts = await assembleMakerchipParts(stackParams, 'printable');
+
+  const parts = printableParts.map((part): MakerchipPart => {
+    const { role, shape } = part;
+    if (role === 'marking' || role === 'center' || part.layer !== undefined) {
+      // Keep the top slab of the inlay and lift it onto the top face, with every pattern layer
+      return { ...part, shape: shape.trimByPlane([0, 0, 1], height - reliefHeight).translate([0, 0, reliefHeight]) };
+    }
+    if (role === 'qr') {
+      return { role, shape: shape.translate([0, 0, reliefTop - shape.boundingBox().min[2]]) };
+    }
+    return part;
+  });
+
+  const colorChange = (z: number, role: 'marking' | 'qr', label: string): LayerEvent => ({
+    type: 'colorChange',
+    z,
+    message: `Change to the ${label} color`,
+    color: partMaterial(params, role).color.slice(0, 7),
+  });
+
+  const events = [colorChange(height, 'marking', 'marking and center')];
+  if (parts.some((part) => part.role === 'qr')) {
+    events.push(colorChange(reliefTop, 'qr', partRoleLabels.qr));
+  }
+
+  return { parts, events, params: stackParams };
+}
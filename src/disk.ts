@@ -3,108 +3,257 @@
  */
 
 import { CrossSection, Manifold } from '@cadit-app/manifold-3d/manifoldCAD';
-import { parseSvgToCrossSection } from './utils';
+import { parseSvgToCrossSection, parseSvgContentToCrossSection } from './utils';
 import { scaleToSizeAndCenter } from './crossSectionUtils';
-
-const REVOLVE_SEGMENTS = 180;
+import {
+  defaultProceduralPatternParams,
+  generateProceduralPattern,
+  ProceduralPatternParams,
+} from './proceduralPatterns';
+import { resolvePattern } from './patterns';
+import { transformPattern } from './patternTransform';
+import type { PatternTransformParams } from './patternTransform';
+import { defaultEdgeProfileParams, edgeCurve, edgeSizes, reededOutline } from './edgeProfile';
+import type { EdgeProfileParams } from './edgeProfile';
+import { DEFAULT_TOLERANCE, circleSegments } from './quality';
 
 /**
- * Generates a profile to revolve a disk shape with rounded edges
+ * Generates a profile to revolve a disk shape with its edge profile: rounded or
+ * chamfered edges, and a lip raised around the top face.
  */
 export function generateDiskProfile({
   radius,
   roundingRadius,
   height,
+  edge = defaultEdgeProfileParams,
+  tolerance = DEFAULT_TOLERANCE,
 }: {
   radius: number;
   roundingRadius: number;
   height: number;
+  edge?: EdgeProfileParams;
+  tolerance?: number;
 }): CrossSection {
-  // Clamp rounding radius to half height
-  const clampedRounding = Math.min(roundingRadius, height / 2);
-
-  // Position two circles for rounded corners
-  const circle1 = CrossSection.circle(clampedRounding, 24).translate([radius - clampedRounding, clampedRounding]);
-  const circle2 = CrossSection.circle(clampedRounding, 24).translate([radius - clampedRounding, height - clampedRounding]);
+  const { top, bottom } = edgeSizes(roundingRadius, edge, height);
+  const lipHeight = Math.max(edge.rimLipHeight, 0);
+  const topZ = height + lipHeight;
 
-  // Create rectangles to fill shape between circles
-  const fillRect = CrossSection.square([clampedRounding, height - clampedRounding * 2], true)
-    .translate([radius - clampedRounding / 2, height / 2]);
+  // Around the profile from the bottom center: bottom edge, side, top edge, then the top face
+  const points: [number, number][] = [[0, 0]];
+  for (const { z, inset } of edgeCurve(bottom, edge.edgeProfile, tolerance)) {
+    points.push([radius - inset, z]);
+  }
+  for (const { z, inset } of edgeCurve(top, edge.edgeProfile, tolerance).reverse()) {
+    points.push([radius - inset, topZ - z]);
+  }
+  if (lipHeight > 0) {
+    const lipInner = radius - edge.rimLipWidth;
+    points.push([lipInner, topZ], [lipInner, height]);
+  }
+  points.push([0, height]);
 
-  // Rectangle to fill from center of disk to rounded edge
-  const fillRect2 = CrossSection.square([radius - clampedRounding, height]);
-
-  // Union to create the disk profile
-  return circle1.add(circle2).add(fillRect).add(fillRect2);
+  // Edges without a size, or that meet, repeat points
+  const profile = points.filter(
+    ([x, y], i) => i === 0 || Math.abs(x - points[i - 1][0]) > 1e-9 || Math.abs(y - points[i - 1][1]) > 1e-9
+  );
+  return new CrossSection([profile]);
 }
 
 /**
- * Creates a rounded disk shape by revolving a profile
+ * Creates a disk with its edge profile by revolving the profile, with the
+ * ridges of a reeded edge cut into its side.
  */
 export function roundedDisk({
   radius,
   roundingRadius,
   height,
+  edge = defaultEdgeProfileParams,
+  tolerance = DEFAULT_TOLERANCE,
 }: {
   radius: number;
   roundingRadius: number;
   height: number;
+  edge?: EdgeProfileParams;
+  tolerance?: number;
+}): Manifold {
+  const profile = generateDiskProfile({ radius, roundingRadius, height, edge, tolerance });
+  const disk = profile.revolve(circleSegments(radius, tolerance));
+  if (!(edge.reedCount > 0 && edge.reedDepth > 0)) {
+    return disk;
+  }
+
+  const bodyHeight = height + Math.max(edge.rimLipHeight, 0);
+  return disk.intersect(
+    reededOutline(radius, edge.reedCount, edge.reedDepth).extrude(bodyHeight + 2).translate([0, 0, -1])
+  );
+}
+
+/**
+ * Creates a chip body with its edge profile from any outline.
+ * The edges are lofted through inset copies of the outline: convex outlines
+ * are hulled between neighbouring layers, other outlines are stepped.
+ * Reeding only applies to round chips, so it is left out here.
+ */
+export function roundedOutline({
+  outline,
+  roundingRadius,
+  height,
+  edge = defaultEdgeProfileParams,
+  tolerance = DEFAULT_TOLERANCE,
+}: {
+  outline: CrossSection;
+  roundingRadius: number;
+  height: number;
+  edge?: EdgeProfileParams;
+  tolerance?: number;
 }): Manifold {
-  const profile = generateDiskProfile({ radius, roundingRadius, height });
-  return profile.revolve(REVOLVE_SEGMENTS);
+  const { top, bottom } = edgeSizes(roundingRadius, edge, height);
+  const lipHeight = Math.max(edge.rimLipHeight, 0);
+  const bodyHeight = height + lipHeight;
+  if (top <= 0 && bottom <= 0 && lipHeight <= 0) {
+    return outline.extrude(height);
+  }
+
+  const isConvex = outline.hull().area() - outline.area() < 1e-3 * outline.area();
+  const layerShape = (inset: number) => (inset > 0 ? outline.offset(-inset, 'Round') : outline);
+
+  // Bands from the bottom face up to the full outline, along the edge
+  const edgeBands = (size: number): Manifold[] => {
+    const layers = edgeCurve(size, edge.edgeProfile, tolerance);
+    const bands: Manifold[] = [];
+    for (let i = 0; i < layers.length - 1; i++) {
+      const lower = layers[i];
+      const upper = layers[i + 1];
+      if (isConvex) {
+        const points = [lower, upper].flatMap(({ z, inset }) =>
+          layerShape(inset)
+            .toPolygons()
+            .flat()
+            .map(([x, y]) => [x, y, z] as [number, number, number])
+        );
+        bands.push(Manifold.hull(points));
+      } else {
+        bands.push(layerShape(lower.inset).extrude(upper.z - lower.z).translate([0, 0, lower.z]));
+      }
+    }
+    return bands;
+  };
+
+  // The top edge is the bottom edge's mirror image, with its own size
+  const bands = [
+    ...edgeBands(bottom),
+    ...edgeBands(top).map((band) => band.mirror([0, 0, 1]).translate([0, 0, bodyHeight])),
+  ];
+  const middleHeight = bodyHeight - top - bottom;
+  if (middleHeight > 0) {
+    bands.push(outline.extrude(middleHeight).translate([0, 0, bottom]));
+  }
+
+  const body = Manifold.union(bands);
+  if (lipHeight <= 0) {
+    return body;
+  }
+  // Clear the top face inside the lip back down to the chip's height
+  const inside = outline.offset(-edge.rimLipWidth, 'Round');
+  return body.subtract(inside.extrude(lipHeight + 1).translate([0, 0, height]));
 }
 
 /**
- * Rounds the edges of any disk shape.
+ * Trims any disk shape to the chip's edge profile.
+ * With an `outline` the shape is trimmed to that outline instead of a circle.
  */
 export function roundDiskEdges({
   original,
   radius,
   roundingRadius,
   height,
+  outline,
+  edge = defaultEdgeProfileParams,
+  tolerance = DEFAULT_TOLERANCE,
 }: {
   original: Manifold;
   radius: number;
   roundingRadius: number;
   height: number;
+  outline?: CrossSection;
+  edge?: EdgeProfileParams;
+  tolerance?: number;
 }): Manifold {
+  if (outline) {
+    return original.intersect(roundedOutline({ outline, roundingRadius, height, edge, tolerance }));
+  }
+
   // Create a larger unrounded disk
   const offset = 10;
-  const largerDisk = CrossSection.square([radius + offset, height + offset]).revolve();
+  const largerDisk = CrossSection.square([radius + offset, height + Math.max(edge.rimLipHeight, 0) + offset]).revolve();
 
-  // Create a rounded disk with required measurements
-  const roundedDiskShape = roundedDisk({ radius, roundingRadius, height });
+  // Create a disk with the chip's edge profile
+  const roundedDiskShape = roundedDisk({ radius, roundingRadius, height, edge, tolerance });
 
-  // Subtract the rounded disk from the larger disk to create a hole with rounded edges
+  // Subtract the disk from the larger disk to create a hole with the chip's edges
   const roundedHoleShape = largerDisk.subtract(roundedDiskShape);
 
-  // Finally, subtract the rounded hole from the original shape
+  // Finally, subtract the hole from the original shape
   return original.subtract(roundedHoleShape);
 }
 
 /**
- * Generates a marking shape by parsing an SVG and extruding it to a specified height.
+ * Generates a marking shape from an SVG or a procedural pattern and extrudes it to a specified height.
+ * A custom `svgContent` takes precedence over `shapeName`.
  */
 export async function generateMarkingShape({
   shapeName,
+  svgContent,
+  patternParams = defaultProceduralPatternParams,
+  transform,
   radius,
   roundingRadius,
   height,
+  outline,
+  edge,
+  tolerance = DEFAULT_TOLERANCE,
 }: {
   shapeName: string;
+  svgContent?: string;
+  patternParams?: ProceduralPatternParams;
+  /** Rotation, mirroring, inversion and ring band; the pattern is used as drawn without it */
+  transform?: PatternTransformParams & { centerCircleRadius: number };
   radius: number;
   roundingRadius: number;
   height: number;
+  outline?: CrossSection;
+  edge?: EdgeProfileParams;
+  /** Chord tolerance of curves and of SVG sampling (mm) */
+  tolerance?: number;
 }): Promise<Manifold> {
-  const shape = await parseSvgToCrossSection(shapeName);
-
-  // Resize - make slightly bigger to overlap with rounding edges cut
+  // Make slightly bigger to overlap with rounding edges cut
   const sizeOffset = 0.1;
-  const sizedShape = scaleToSizeAndCenter(
-    shape,
-    radius * 2 + sizeOffset,
-    radius * 2 + sizeOffset
-  );
+
+  const pattern = svgContent ? undefined : resolvePattern(shapeName);
+
+  let sizedShape: CrossSection;
+  if (pattern?.kind === 'procedural') {
+    // Procedural patterns are already built to size
+    sizedShape = generateProceduralPattern(pattern.generator, radius + sizeOffset / 2, patternParams, tolerance);
+  } else {
+    const shape = svgContent
+      ? await parseSvgContentToCrossSection(svgContent, tolerance, radius * 2)
+      : await parseSvgToCrossSection(shapeName, tolerance, radius * 2);
+
+    // Resize
+    sizedShape = scaleToSizeAndCenter(
+      shape,
+      radius * 2 + sizeOffset,
+      radius * 2 + sizeOffset
+    );
+  }
+
+  if (transform) {
+    // Built-in patterns know where their ring starts; custom ones are taken to start at the center circle
+    const patternRadius = radius + sizeOffset / 2;
+    const ringRadius = pattern ? pattern.centerRadius * patternRadius : undefined;
+    sizedShape = transformPattern(sizedShape, patternRadius, { ...transform, ringRadius }, tolerance);
+  }
 
   // Extrude
   const extrudedShape = sizedShape.extrude(height);
@@ -115,6 +264,9 @@ export async function generateMarkingShape({
     radius,
     roundingRadius,
     height,
+    outline,
+    edge,
+    tolerance,
   });
 
   return roundedShape;
@@ -122,15 +274,38 @@ export async function generateMarkingShape({
 
 /**
  * Generates the center disk for the chip.
+ * With an `outline` the disk is clipped to the chip's rounded outline.
  */
 export function generateCenterDisk({
   centerCircleRadius,
   height,
+  roundingRadius = 0,
+  outline,
+  edge,
+  tolerance = DEFAULT_TOLERANCE,
 }: {
   centerCircleRadius: number;
   height: number;
+  roundingRadius?: number;
+  outline?: CrossSection;
+  edge?: EdgeProfileParams;
+  tolerance?: number;
 }): Manifold {
   // Create a simple cylinder for the center disk
-  const circle = CrossSection.circle(centerCircleRadius, 64);
-  return circle.extrude(height);
+  const circle = CrossSection.circle(centerCircleRadius, circleSegments(centerCircleRadius, tolerance));
+  const cylinder = circle.extrude(height);
+
+  if (!outline) {
+    return cylinder;
+  }
+
+  return roundDiskEdges({
+    original: cylinder,
+    radius: centerCircleRadius,
+    roundingRadius,
+    height,
+    outline,
+    edge,
+    tolerance,
+  });
 }
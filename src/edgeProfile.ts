@@ -0,0 +1,108 @@
+/**
+ * Rim edge profiles for Makerchip: rounded or chamfered edges, sized
+ * separately for the top and bottom, a raised lip around the top face and a
+ * reeded coin edge.
+ */
+
+import { CrossSection } from '@cadit-app/manifold-3d/manifoldCAD';
+import { DEFAULT_TOLERANCE, arcSegments } from './quality';
+
+export type EdgeShape = 'round' | 'chamfer';
+
+export type EdgeProfileParams = {
+  /** Shape of the top and bottom edges; their size is the rounding radius */
+  edgeProfile: EdgeShape;
+  /** Size of the bottom edge; negative for the same as the top edge (mm) */
+  bottomRoundingRadius: number;
+  /** Height of a raised lip around the top face; 0 for none (mm) */
+  rimLipHeight: number;
+  /** Width of the rim lip, measured inwards from the chip edge (mm) */
+  rimLipWidth: number;
+  /** Number of ridges around a reeded coin edge; 0 for a smooth edge */
+  reedCount: number;
+  /** Depth of the grooves between the ridges (mm) */
+  reedDepth: number;
+};
+
+export const defaultEdgeProfileParams: EdgeProfileParams = {
+  edgeProfile: 'round',
+  bottomRoundingRadius: -1,
+  rimLipHeight: 0,
+  rimLipWidth: 1.5,
+  reedCount: 0,
+  reedDepth: 0.3,
+};
+
+/**
+ * Edge sizes for a chip `height` tall, each clamped to half its height. With a
+ * rim lip the top edge is on the lip, and is no wider than the lip.
+ */
+export function edgeSizes(
+  roundingRadius: number,
+  edge: EdgeProfileParams,
+  height: number
+): { top: number; bottom: number } {
+  const bottom = edge.bottomRoundingRadius >= 0 ? edge.bottomRoundingRadius : roundingRadius;
+  const lip = edge.rimLipHeight > 0;
+  return {
+    top: Math.max(0, Math.min(roundingRadius, (height + (lip ? edge.rimLipHeight : 0)) / 2, lip ? edge.rimLipWidth : Infinity)),
+    bottom: Math.max(0, Math.min(bottom, height / 2)),
+  };
+}
+
+/**
+ * Samples an edge of the given size, from where it meets the face (z 0, inset
+ * by the size) to where it meets the side (z at the size, no inset). Edges
+ * are sampled finely enough for a rounded edge to stay within the chord
+ * `tolerance`.
+ */
+export function edgeCurve(
+  size: number,
+  shape: EdgeShape,
+  tolerance: number = DEFAULT_TOLERANCE
+): { z: number; inset: number }[] {
+  if (size <= 0) {
+    return [{ z: 0, inset: 0 }];
+  }
+  // Chamfers take as many steps as a rounded edge, so stepped outlines still slope
+  const steps = arcSegments(size, Math.PI / 2, tolerance);
+  return Array.from({ length: steps + 1 }, (_, i) => {
+    if (shape === 'chamfer') {
+      return { z: (size * i) / steps, inset: size * (1 - i / steps) };
+    }
+    const angle = (i / steps) * (Math.PI / 2);
+    return { z: size * (1 - Math.cos(angle)), inset: size * (1 - Math.sin(angle)) };
+  });
+}
+
+/**
+ * Outline of a reeded edge: `count` ridges around a circle, with grooves
+ * `depth` deep between them, each half of the ridge spacing.
+ */
+export function reededOutline(radius: number, count: number, depth: number): CrossSection {
+  const ridges = Math.max(3, Math.round(count));
+  const period = (2 * Math.PI) / ridges;
+  const inner = radius - depth;
+  const points: [number, number][] = [];
+  for (let i = 0; i < ridges; i++) {
+    // Ridge top, then a groove with sloped flanks: 40% ridge / 10% flank / 40% groove / 10% flank
+    for (const [fraction, r] of [
+      [0, radius],
+      [0.4, radius],
+      [0.5, inner],
+      [0.9, inner],
+    ] as const) {
+      const angle = (i + fraction) * period;
+      points.push([r * Math.cos(angle), r * Math.sin(angle)]);
+    }
+  }
+  return new CrossSection([points]);
+}
+
+/**
+ * Edge profile with the lip and reeding turned off, for features such as the
+ * keychain tab that follow the chip's edge shape but not its rim details.
+ */
+export function plainEdge(edge: EdgeProfileParams): EdgeProfileParams {
+  return { ...edge, rimLipHeight: 0, reedCount: 0 };
+}
@@ -0,0 +1,91 @@
+/**
+ * Face placement for the QR code and image embeds: which face they go on,
+ * where on it, and whether they stand out from it or sink into it.
+ */
+
+import type { Manifold } from '@cadit-app/manifold-3d/manifoldCAD';
+import type { MakerChipParams } from './params';
+import { supportedThickness } from './relief';
+
+export type EmbedKind = 'qr' | 'image';
+export type EmbedFace = 'top' | 'bottom' | 'both';
+export type EmbedMode = 'emboss' | 'deboss';
+
+export type EmbedPlacementParams = {
+  qrFace: EmbedFace;
+  /** Raised on the face, or sunk flush into it */
+  qrMode: EmbedMode;
+  /** Counter-clockwise, as seen looking at its face (degrees) */
+  qrRotation: number;
+  /** Offset of the QR code's center from the chip center, as seen looking at its face (mm) */
+  qrPositionX: number;
+  qrPositionY: number;
+  imageFace: EmbedFace;
+  imageMode: EmbedMode;
+  imageRotation: number;
+  imagePositionX: number;
+  imagePositionY: number;
+};
+
+export const defaultEmbedPlacementParams: EmbedPlacementParams = {
+  qrFace: 'top',
+  qrMode: 'deboss',
+  qrRotation: 0,
+  qrPositionX: 0,
+  qrPositionY: 0,
+  imageFace: 'bottom',
+  imageMode: 'deboss',
+  imageRotation: 0,
+  imagePositionX: 0,
+  imagePositionY: 0,
+};
+
+export type EmbedPlacement = {
+  face: 'top' | 'bottom';
+  mode: EmbedMode;
+  rotation: number;
+  x: number;
+  y: number;
+  /** How far the embed's outer surface stands out from the face (mm) */
+  outer: number;
+  /** Thickness to generate the embed with (mm) */
+  thickness: number;
+};
+
+/**
+ * Works out where an embed goes on each of its faces. `ownThickness` is the
+ * embed's own height, used unless a relief thickness is set.
+ */
+export function embedPlacements(params: MakerChipParams, kind: EmbedKind, ownThickness: number): EmbedPlacement[] {
+  const face = params[`${kind}Face`];
+  const mode = params[`${kind}Mode`];
+  const offset = params[`${kind}Offset`];
+  const thickness = params[`${kind}Thickness`] > 0 ? params[`${kind}Thickness`] : ownThickness;
+  const outer = offset + (mode === 'emboss' ? thickness : 0);
+
+  return (face === 'both' ? (['top', 'bottom'] as const) : [face]).map((side) => {
+    // On top, a recessed center disk is the lowest surface the embed may rest on
+    const support = side === 'top' ? Math.min(0, params.centerOffset) : 0;
+    return {
+      face: side,
+      mode,
+      rotation: params[`${kind}Rotation`],
+      x: params[`${kind}PositionX`],
+      y: params[`${kind}PositionY`],
+      outer,
+      thickness: supportedThickness(outer, thickness, support),
+    };
+  });
+}
+
+/**
+ * Moves an embed, generated at Z 0 to its thickness, onto its face. Embeds on
+ * the bottom face are mirrored, so they read correctly when the chip is flipped.
+ */
+export function placeEmbed(shape: Manifold, placement: EmbedPlacement, height: number): Manifold {
+  const { face, rotation, x, y, outer, thickness } = placement;
+  const seen = shape.rotate([0, 0, rotation]).translate([x, y, 0]);
+  return face === 'top'
+    ? seen.translate([0, 0, height + outer - thickness])
+    : seen.mirror([1, 0, 0]).translate([0, 0, -outer]);
+}
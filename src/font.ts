@@ -0,0 +1,78 @@
+/**
+ * Built-in single-stroke font for Makerchip text.
+ *
+ * Glyphs are drawn as polylines on a grid that is GLYPH_WIDTH units wide and
+ * CAP_HEIGHT units tall, with the baseline at y = 0. Each polyline is a string
+ * of "x,y" points; a single point draws a dot. Strokes are thickened into
+ * outlines when the text is generated, so no font files are needed.
+ */
+
+export const GLYPH_WIDTH = 4;
+export const CAP_HEIGHT = 6;
+export const GLYPH_SPACING = 2;
+
+const O = '1,0 0,1 0,5 1,6 3,6 4,5 4,1 3,0 1,0';
+const P = '0,0 0,6 3,6 4,5 4,4 3,3 0,3';
+
+export const strokeFont: Record<string, string[]> = {
+  ' ': [],
+  A: ['0,0 0,4 2,6 4,4 4,0', '0,3 4,3'],
+  B: ['0,0 0,6 3,6 4,5 4,4 3,3 0,3', '3,3 4,2 4,1 3,0 0,0'],
+  C: ['4,5 3,6 1,6 0,5 0,1 1,0 3,0 4,1'],
+  D: ['0,0 0,6 2,6 4,4 4,2 2,0 0,0'],
+  E: ['4,6 0,6 0,0 4,0', '0,3 3,3'],
+  F: ['4,6 0,6 0,0', '0,3 3,3'],
+  G: ['4,5 3,6 1,6 0,5 0,1 1,0 3,0 4,1 4,3 2,3'],
+  H: ['0,0 0,6', '4,0 4,6', '0,3 4,3'],
+  I: ['1,6 3,6', '2,6 2,0', '1,0 3,0'],
+  J: ['4,6 4,1 3,0 1,0 0,1'],
+  K: ['0,0 0,6', '4,6 0,2', '1,3 4,0'],
+  L: ['0,6 0,0 4,0'],
+  M: ['0,0 0,6 2,3 4,6 4,0'],
+  N: ['0,0 0,6 4,0 4,6'],
+  O: [O],
+  P: [P],
+  Q: [O, '2,2 4,0'],
+  R: [P, '2,3 4,0'],
+  S: ['4,5 3,6 1,6 0,5 0,4 1,3 3,3 4,2 4,1 3,0 1,0 0,1'],
+  T: ['0,6 4,6', '2,6 2,0'],
+  U: ['0,6 0,1 1,0 3,0 4,1 4,6'],
+  V: ['0,6 2,0 4,6'],
+  W: ['0,6 1,0 2,4 3,0 4,6'],
+  X: ['0,0 4,6', '0,6 4,0'],
+  Y: ['0,6 2,3 4,6', '2,3 2,0'],
+  Z: ['0,6 4,6 0,0 4,0'],
+  '0': [O, '1,1 3,5'],
+  '1': ['1,5 2,6 2,0', '1,0 3,0'],
+  '2': ['0,5 1,6 3,6 4,5 4,4 0,0 4,0'],
+  '3': ['0,5 1,6 3,6 4,5 4,4 3,3 4,2 4,1 3,0 1,0 0,1', '1,3 3,3'],
+  '4': ['3,0 3,6 0,2 4,2'],
+  '5': ['4,6 0,6 0,3 3,3 4,2 4,1 3,0 0,0'],
+  '6': ['4,5 3,6 1,6 0,5 0,1 1,0 3,0 4,1 4,2 3,3 0,3'],
+  '7': ['0,6 4,6 1,0'],
+  '8': ['1,3 0,4 0,5 1,6 3,6 4,5 4,4 3,3 1,3 0,2 0,1 1,0 3,0 4,1 4,2 3,3'],
+  '9': ['0,1 1,0 3,0 4,1 4,5 3,6 1,6 0,5 0,4 1,3 4,3'],
+  '.': ['2,0'],
+  ',': ['2,0 1,-1'],
+  ':': ['2,1', '2,5'],
+  '-': ['1,3 3,3'],
+  '+': ['2,1 2,5', '0,3 4,3'],
+  '/': ['0,0 4,6'],
+  '#': ['1,0 1,6', '3,0 3,6', '0,2 4,2', '0,4 4,4'],
+  '!': ['2,6 2,2', '2,0'],
+  '?': ['0,5 1,6 3,6 4,5 4,4 2,3 2,2', '2,0'],
+  "'": ['2,6 2,5'],
+  '(': ['3,6 2,5 2,1 3,0'],
+  ')': ['1,6 2,5 2,1 1,0'],
+};
+
+/**
+ * Returns the polylines for a character, falling back to uppercase.
+ * Unsupported characters are rendered as a space.
+ */
+export function glyphStrokes(char: string): [number, number][][] {
+  const strokes = strokeFont[char] ?? strokeFont[char.toUpperCase()] ?? [];
+  return strokes.map((stroke) =>
+    stroke.split(' ').map((point) => point.split(',').map(Number) as [number, number])
+  );
+}
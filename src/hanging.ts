@@ -0,0 +1,112 @@
+/**
+ * Keychain holes and lanyard loops for Makerchip.
+ */
+
+import { CrossSection, Manifold } from '@cadit-app/manifold-3d/manifoldCAD';
+import { roundedOutline } from './disk';
+import { plainEdge } from './edgeProfile';
+import type { EdgeProfileParams } from './edgeProfile';
+import { DEFAULT_TOLERANCE, circleSegments } from './quality';
+
+export type HangingFeatureType = 'none' | 'hole' | 'tab' | 'slot';
+
+export type HangingParams = {
+  hangingFeature: HangingFeatureType;
+  /** Position of the feature around the chip (degrees, 90 = top) */
+  hangingAngle: number;
+  /** Distance from the chip edge to the center of the hole or slot (mm) */
+  hangingInset: number;
+  /** Diameter of the hole, or width of the slot (mm) */
+  hangingHoleDiameter: number;
+  /** Length of the split ring slot (mm) */
+  hangingSlotLength: number;
+  /** Wall thickness around the tab loop's hole (mm) */
+  hangingTabWall: number;
+};
+
+export type HangingFeature = {
+  /** Outline to cut through every part */
+  cut: CrossSection;
+  /** Extra body to merge into the chip base */
+  add?: Manifold;
+};
+
+function polar(distance: number, angle: number): [number, number] {
+  const radians = (angle * Math.PI) / 180;
+  return [distance * Math.cos(radians), distance * Math.sin(radians)];
+}
+
+function hole(radius: number, tolerance: number): CrossSection {
+  return CrossSection.circle(radius, circleSegments(radius, tolerance));
+}
+
+/**
+ * Stadium-shaped slot along the X axis, centered on the origin.
+ */
+function stadium(length: number, width: number, tolerance: number): CrossSection {
+  const end = hole(width / 2, tolerance);
+  const halfSpan = Math.max(length - width, 0) / 2;
+  return end.translate([-halfSpan, 0]).add(end.translate([halfSpan, 0])).hull();
+}
+
+/**
+ * Generates the selected hanging feature for a chip with its edge at `radius`.
+ */
+export function generateHangingFeature({
+  hangingFeature,
+  hangingAngle,
+  hangingInset,
+  hangingHoleDiameter,
+  hangingSlotLength,
+  hangingTabWall,
+  radius,
+  roundingRadius,
+  height,
+  tolerance = DEFAULT_TOLERANCE,
+  ...edge
+}: HangingParams & EdgeProfileParams & {
+  radius: number;
+  roundingRadius: number;
+  height: number;
+  tolerance?: number;
+}): HangingFeature | undefined {
+  const holeRadius = hangingHoleDiameter / 2;
+
+  switch (hangingFeature) {
+    case 'hole':
+      return {
+        cut: hole(holeRadius, tolerance).translate(polar(radius - hangingInset, hangingAngle)),
+      };
+    case 'slot':
+      // Slot runs along the rim, so a split ring can pass through it
+      return {
+        cut: stadium(hangingSlotLength, hangingHoleDiameter, tolerance)
+          .rotate(hangingAngle - 90)
+          .translate(polar(radius - hangingInset, hangingAngle)),
+      };
+    case 'tab': {
+      // Loop sits outside the rim, with its body reaching back into the chip
+      const loopRadius = holeRadius + hangingTabWall;
+      const loopDistance = radius + loopRadius;
+      const tabOutline = stadium(loopRadius * 4, loopRadius * 2, tolerance)
+        .rotate(hangingAngle)
+        .translate(polar(radius, hangingAngle));
+      return {
+        cut: hole(holeRadius, tolerance).translate(polar(loopDistance, hangingAngle)),
+        // The tab follows the chip's edge shape, without its lip or reeding
+        add: roundedOutline({ outline: tabOutline, roundingRadius, height, edge: plainEdge(edge), tolerance }),
+      };
+    }
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Extrudes a hanging feature's cut outline well past both faces of the chip,
+ * so it also clears embossed layers.
+ */
+export function hangingCutter(cut: CrossSection, height: number): Manifold {
+  const margin = Math.max(height, 10);
+  return cut.extrude(height + 2 * margin).translate([0, 0, -margin]);
+}
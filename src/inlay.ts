@@ -0,0 +1,68 @@
+/**
+ * Flush inlay mode: turns the overlapping printable parts into disjoint
+ * bodies that fit together, so any slicer prints them the same way.
+ */
+
+import type { MakerchipPart, PartRole } from './assembly';
+import type { EmbedFace, EmbedPlacementParams } from './embedPlacement';
+import type { TextFace } from './text';
+
+export type InlayParams = {
+  /** Cut each part out of the parts below it, instead of overlapping them */
+  inlay: boolean;
+  /** How deep the colored parts go into the chip; 0 for the full height (mm) */
+  inlayDepth: number;
+};
+
+export const defaultInlayParams: InlayParams = {
+  inlay: false,
+  inlayDepth: 0,
+};
+
+// Parts that cover others, from the top down. The base is the lowest.
+const inlayPriority: PartRole[] = ['qr', 'text', 'image', 'center', 'marking', 'base'];
+
+/**
+ * Limits a colored part to `depth` below the face, or faces, it is seen from.
+ */
+function limitDepth(part: MakerchipPart, height: number, depth: number, face: EmbedFace): MakerchipPart {
+  const fromTop = part.shape.trimByPlane([0, 0, 1], height - depth);
+  const fromBottom = part.shape.trimByPlane([0, 0, -1], -depth);
+  const shape = face === 'both' ? fromTop.add(fromBottom) : face === 'bottom' ? fromBottom : fromTop;
+  return { ...part, shape };
+}
+
+/**
+ * Subtracts every part from the parts below it in priority, so the parts are
+ * disjoint and together form the flush chip. With an inlay depth, the colored
+ * parts only go that deep and the base fills the rest.
+ */
+export function inlayParts(
+  parts: MakerchipPart[],
+  { height, inlayDepth, textFace, qrFace, imageFace }: InlayParams &
+    Pick<EmbedPlacementParams, 'qrFace' | 'imageFace'> & { height: number; textFace: TextFace }
+): MakerchipPart[] {
+  const faces: Partial<Record<PartRole, EmbedFace>> = { qr: qrFace, image: imageFace, text: textFace };
+
+  const limited = parts.map((part) => {
+    if (part.role === 'base' || !(inlayDepth > 0 && inlayDepth < height)) {
+      return part;
+    }
+    // The embeds and text may be seen from below
+    return limitDepth(part, height, inlayDepth, faces[part.role] ?? 'top');
+  });
+
+  const priority = (part: MakerchipPart) => inlayPriority.indexOf(part.role);
+  const ordered = [...limited].sort((a, b) => priority(a) - priority(b));
+
+  // Walk from the top part down, cutting away everything already placed
+  const result = new Map<MakerchipPart, MakerchipPart>();
+  let covered: MakerchipPart['shape'] | undefined;
+  for (const part of ordered) {
+    result.set(part, covered ? { ...part, shape: part.shape.subtract(covered) } : part);
+    covered = covered ? covered.add(part.shape) : part.shape;
+  }
+
+  // Keep the original part order, and drop parts that were covered completely
+  return limited.map((part) => result.get(part)!).filter((part) => !part.shape.isEmpty());
+}
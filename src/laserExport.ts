@@ -0,0 +1,261 @@
+/**
+ * 2D SVG/DXF Exporter for Makerchip.
+ * Writes each chip layer as a cut outline for laser cutting, either one file
+ * per layer or nested on sheets of stock.
+ */
+
+// @ts-ignore - No type declarations available
+import type { Exporter, ExportResult } from '@cadit-app/script-params';
+import type { CrossSection } from '@cadit-app/manifold-3d/manifoldCAD';
+import { strToU8, Zippable, zipSync } from 'fflate';
+import { assembleMakerchipParts } from './assembly';
+import type { PartRole } from './assembly';
+import { partRoleLabels } from './materials';
+import type { MakerChipParams } from './params';
+import { layoutPlate } from './plate';
+
+export type LaserParams = {
+  /** Laser kerf width; outlines are grown by half of it (mm) */
+  laserKerf: number;
+  /** Nest all layers on sheets of stock instead of one file per layer */
+  laserNested: boolean;
+  /** Stock sheet size (mm) */
+  laserSheetWidth: number;
+  laserSheetHeight: number;
+  /** Gap between nested layers (mm) */
+  laserGap: number;
+};
+
+export const defaultLaserParams: LaserParams = {
+  laserKerf: 0,
+  laserNested: false,
+  laserSheetWidth: 300,
+  laserSheetHeight: 200,
+  laserGap: 2,
+};
+
+/**
+ * Stroke colors per layer, as RGB for SVG and AutoCAD color index for DXF.
+ * Laser software maps colors to cut settings, so these are kept distinct
+ * rather than following the part display colors.
+ */
+const laserLayerColors: Record<PartRole, { rgb: string; aci: number }> = {
+  base: { rgb: '#FF0000', aci: 1 },
+  marking: { rgb: '#0000FF', aci: 5 },
+  center: { rgb: '#00FF00', aci: 3 },
+  qr: { rgb: '#FF00FF', aci: 6 },
+  image: { rgb: '#00FFFF', aci: 4 },
+  text: { rgb: '#FFFF00', aci: 2 },
+};
+
+export type LaserLayer = {
+  role: PartRole;
+  /** Pattern layer number, when the chip has several */
+  layer?: number;
+  /** Closed contours in mm, with holes as separate contours */
+  polygons: [number, number][][];
+};
+
+type LaserFile = {
+  name: string;
+  layers: LaserLayer[];
+  width: number;
+  height: number;
+};
+
+type LaserOutline = Omit<LaserLayer, 'polygons'> & { shape: CrossSection };
+
+const layerId = ({ role, layer }: Omit<LaserLayer, 'polygons'>) => (layer === undefined ? role : `${role}-layer${layer}`);
+const layerLabel = ({ role, layer }: Omit<LaserLayer, 'polygons'>) =>
+  layer === undefined ? partRoleLabels[role] : `${partRoleLabels[role]} Layer ${layer}`;
+
+/**
+ * Builds the 2D cut outline of each chip layer, grown by half the kerf.
+ */
+export async function generateLaserLayers(params: MakerChipParams): Promise<LaserOutline[]> {
+  const parts = await assembleMakerchipParts(params, 'printable');
+
+  return parts.map(({ role, shape, layer }) => {
+    let outline = shape.project();
+    if ((role === 'image' && params.imageFace === 'bottom') || (role === 'qr' && params.qrFace === 'bottom')) {
+      // Embeds are mirrored onto the bottom face; cut them as they read from above
+      outline = outline.mirror([1, 0]);
+    }
+    if (params.laserKerf > 0) {
+      outline = outline.offset(params.laserKerf / 2, 'Miter', 2);
+    }
+    return { role, layer, shape: outline };
+  });
+}
+
+/**
+ * Encode layers as an SVG in millimeters, one group per layer.
+ * Layer coordinates have Y up, from (0, 0) to (width, height).
+ */
+export function generateLaserSvg(layers: LaserLayer[], width: number, height: number): string {
+  const format = (value: number) => Number(value.toFixed(4)).toString();
+
+  const groups = layers.map((layer) => {
+    const { role, polygons } = layer;
+    const path = polygons
+      // Flip Y, as SVG has Y down
+      .map((polygon) => 'M' + polygon.map(([x, y]) => `${format(x)},${format(height - y)}`).join('L') + 'Z')
+      .join('');
+    return `  <g id="${layerId(layer)}" inkscape:label="${layerLabel(layer)}" inkscape:groupmode="layer" stroke="${laserLayerColors[role].rgb}">
+    <path d="${path}"/>
+  </g>`;
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<svg xmlns="http://www.w3.org/2000/svg" xmlns:inkscape="http://www.inkscape.org/namespaces/inkscape" width="${format(width)}mm" height="${format(height)}mm" viewBox="0 0 ${format(width)} ${format(height)}" fill="none" fill-rule="evenodd" stroke-width="0.1">
+${groups.join('\n')}
+</svg>
+`;
+}
+
+/**
+ * Encode layers as an R12 ASCII DXF in millimeters, with one DXF layer each.
+ */
+export function generateLaserDxf(layers: LaserLayer[]): string {
+  const lines: (string | number)[] = [];
+  const group = (code: number, value: string | number) => lines.push(code, value);
+
+  group(0, 'SECTION');
+  group(2, 'HEADER');
+  // Drawing units: millimeters
+  group(9, '$INSUNITS');
+  group(70, 4);
+  group(0, 'ENDSEC');
+
+  group(0, 'SECTION');
+  group(2, 'TABLES');
+  group(0, 'TABLE');
+  group(2, 'LAYER');
+  group(70, layers.length);
+  for (const layer of layers) {
+    group(0, 'LAYER');
+    group(2, layerLabel(layer));
+    group(70, 0);
+    group(62, laserLayerColors[layer.role].aci);
+    group(6, 'CONTINUOUS');
+  }
+  group(0, 'ENDTAB');
+  group(0, 'ENDSEC');
+
+  group(0, 'SECTION');
+  group(2, 'ENTITIES');
+  for (const layer of layers) {
+    const name = layerLabel(layer);
+    for (const polygon of layer.polygons) {
+      group(0, 'POLYLINE');
+      group(8, name);
+      group(66, 1);
+      // Closed polyline
+      group(70, 1);
+      for (const [x, y] of polygon) {
+        group(0, 'VERTEX');
+        group(8, name);
+        group(10, x.toFixed(4));
+        group(20, y.toFixed(4));
+      }
+      group(0, 'SEQEND');
+      group(8, name);
+    }
+  }
+  group(0, 'ENDSEC');
+  group(0, 'EOF');
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Lays the layers out as files: one per layer, or nested on as many sheets
+ * as they need. Returns any layout warnings.
+ */
+export function layoutLaserFiles(
+  layers: LaserOutline[],
+  params: MakerChipParams
+): { files: LaserFile[]; warnings: string[] } {
+  const placed = (shape: CrossSection, dx: number, dy: number) =>
+    shape.toPolygons().map((polygon: [number, number][]) => polygon.map(([x, y]) => [x + dx, y + dy] as [number, number]));
+
+  const shapes = layers.filter(({ shape }) => !shape.isEmpty());
+
+  if (!params.laserNested) {
+    const files = shapes.map(({ shape, ...layer }) => {
+      const { min, max } = shape.bounds();
+      return {
+        name: layerId(layer),
+        layers: [{ ...layer, polygons: placed(shape, -min[0], -min[1]) }],
+        width: max[0] - min[0],
+        height: max[1] - min[1],
+      };
+    });
+    return { files, warnings: [] };
+  }
+
+  const { laserSheetWidth: width, laserSheetHeight: height, laserGap: gap } = params;
+  const bounds = shapes.map(({ shape }) => shape.bounds());
+  const footprint: [number, number] = [
+    Math.max(...bounds.map((b) => b.max[0] - b.min[0])),
+    Math.max(...bounds.map((b) => b.max[1] - b.min[1])),
+  ];
+
+  const warnings: string[] = [];
+  if (footprint[0] > width || footprint[1] > height) {
+    warnings.push(
+      `A layer (${footprint[0].toFixed(1)} × ${footprint[1].toFixed(1)} mm) is larger than the ${width} × ${height} mm sheet`
+    );
+  }
+
+  const files: LaserFile[] = [];
+  let next = 0;
+  while (next < shapes.length) {
+    const remaining = shapes.length - next;
+    const layout = layoutPlate(remaining, footprint, { bedWidth: width, bedDepth: height, gap, packing: 'grid' });
+    // Layers past the far edge go on the next sheet, but every sheet takes at least one
+    const count = Math.max(1, remaining - layout.overflow);
+
+    const sheetLayers = shapes.slice(next, next + count).map(({ shape, ...layer }, i) => {
+      const { min, max } = bounds[next + i];
+      const [x, y] = layout.positions[i];
+      return { ...layer, polygons: placed(shape, x - (min[0] + max[0]) / 2, y - (min[1] + max[1]) / 2) };
+    });
+    files.push({ name: `sheet-${files.length + 1}`, layers: sheetLayers, width, height });
+    next += count;
+  }
+
+  return { files, warnings };
+}
+
+/**
+ * Export the chip layers as SVG and DXF files in a ZIP.
+ */
+export async function laserExport(params: MakerChipParams): Promise<ExportResult & { warnings: string[] }> {
+  const layers = await generateLaserLayers(params);
+  const { files, warnings } = layoutLaserFiles(layers, params);
+
+  const zipFiles: Zippable = {};
+  for (const file of files) {
+    zipFiles[`makerchip-${file.name}.svg`] = strToU8(generateLaserSvg(file.layers, file.width, file.height));
+    zipFiles[`makerchip-${file.name}.dxf`] = strToU8(generateLaserDxf(file.layers));
+  }
+
+  const zipFile = zipSync(zipFiles);
+  return {
+    mimeType: 'application/zip',
+    fileName: params.laserNested ? 'makerchip-laser-sheets.zip' : 'makerchip-laser-layers.zip',
+    data: zipFile.buffer as ArrayBuffer,
+    warnings,
+  };
+}
+
+/**
+ * Laser cutting Exporter for defineParams.
+ */
+export const laserExporter: Exporter<MakerChipParams> = {
+  name: 'SVG/DXF (laser)',
+  label: 'Download laser layers',
+  description: 'Export each chip layer as SVG and DXF outlines for laser cutting.',
+  export: laserExport,
+};
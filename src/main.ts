@@ -8,13 +8,23 @@
 import { defineParams } from '@cadit-app/script-params';
 import { Manifold } from '@cadit-app/manifold-3d/manifoldCAD';
 import { assembleMakerchipShapes, AssemblyType } from './assembly';
-import { threeMfExporter } from './threeMfExport';
+import { threeMfExporter, singleExtruderThreeMfExporter } from './threeMfExport';
+import { stlExporter, asciiStlExporter, stlZipExporter } from './stlExport';
+import { objExporter } from './objExport';
+import { laserExporter } from './laserExport';
 import { makerChipParamsSchema, MakerChipParams } from './params';
+import { assertValidParams, validateMakerchipParams, validateSingleExtruderParams, withValidation } from './validation';
 
 // Re-export for external use
 export { assembleMakerchipShapes } from './assembly';
 export { makerChipParamsSchema } from './params';
 export type { MakerChipParams } from './params';
+export { validateMakerchipParams, validateSingleExtruderParams, formatDiagnostics, hasErrors } from './validation';
+export type { Diagnostic, DiagnosticSeverity } from './validation';
+export { PRESET_VERSION, createPreset, serializePreset, parsePreset, migratePreset, applyPreset } from './presets';
+export type { MakerChipPreset } from './presets';
+export { generateReport, formatReport, filamentPresets } from './report';
+export type { GeometryReport, PartReport, Filament, ReportOptions } from './report';
 
 /**
  * Main entry point using defineParams
@@ -22,10 +32,22 @@ export type { MakerChipParams } from './params';
 export default defineParams({
   params: makerChipParamsSchema,
   exporters: {
-    '3mf': threeMfExporter as any,
+    '3mf': withValidation(threeMfExporter) as any,
+    '3mf-single-extruder': withValidation(singleExtruderThreeMfExporter, (params) => [
+      ...validateMakerchipParams(params),
+      ...validateSingleExtruderParams(params),
+    ]) as any,
+    stl: withValidation(stlExporter) as any,
+    'stl-ascii': withValidation(asciiStlExporter) as any,
+    'stl-zip': withValidation(stlZipExporter) as any,
+    obj: withValidation(objExporter) as any,
+    laser: withValidation(laserExporter) as any,
   },
   main: async (params): Promise<Manifold> => {
     const assemblyType = params.assemblyType as AssemblyType;
+
+    // Stop on invalid params; use validateMakerchipParams for the warnings
+    assertValidParams(params as MakerChipParams);
     
     // Get all shapes for the assembly
     const allShapes = await assembleMakerchipShapes(params as MakerChipParams, assemblyType);
@@ -0,0 +1,77 @@
+/**
+ * Display colors and extruder assignment for each part role.
+ */
+
+import type { PartRole } from './assembly';
+
+export const partRoles: PartRole[] = ['base', 'center', 'marking', 'qr', 'image', 'text'];
+
+export const partRoleLabels: Record<PartRole, string> = {
+  base: 'Base',
+  center: 'Center',
+  marking: 'Marking',
+  qr: 'QR Code',
+  image: 'Image',
+  text: 'Text',
+};
+
+/**
+ * Name of a part in exported files, e.g. Makerchip-QRCode, Makerchip-2-Base on a
+ * plate, or Makerchip-Marking-Layer2 for the second layer of a pattern layer list.
+ */
+export function partName(role: PartRole, chipNumber?: number, layer?: number): string {
+  const label = partRoleLabels[role].replace(/\s+/g, '') + (layer === undefined ? '' : `-Layer${layer}`);
+  return chipNumber === undefined ? `Makerchip-${label}` : `Makerchip-${chipNumber}-${label}`;
+}
+
+export type MaterialParams = { [R in PartRole as `${R}Color`]: string } & {
+  [R in PartRole as `${R}Extruder`]: number;
+};
+
+export type PartMaterial = {
+  /** Display color as #RRGGBBAA */
+  color: string;
+  /** 1-based extruder number */
+  extruder: number;
+};
+
+export const defaultPartMaterials: Record<PartRole, { color: string; extruder: number }> = {
+  base: { color: '#F5F5F5', extruder: 1 },
+  center: { color: '#212121', extruder: 2 },
+  marking: { color: '#1E88E5', extruder: 3 },
+  qr: { color: '#212121', extruder: 4 },
+  image: { color: '#E53935', extruder: 4 },
+  text: { color: '#FDD835', extruder: 4 },
+};
+
+/**
+ * Normalizes #RGB, #RRGGBB and #RRGGBBAA colors to #RRGGBBAA.
+ */
+export function normalizeColor(color: string): string {
+  const hex = color.trim().replace(/^#/, '').toUpperCase();
+  if (/^[0-9A-F]{3}$/.test(hex)) {
+    return `#${[...hex].map((c) => c + c).join('')}FF`;
+  }
+  if (/^[0-9A-F]{6}$/.test(hex)) {
+    return `#${hex}FF`;
+  }
+  if (/^[0-9A-F]{8}$/.test(hex)) {
+    return `#${hex}`;
+  }
+  throw new Error(`Invalid color: ${color} (expected a hex color such as #1E88E5)`);
+}
+
+/**
+ * Returns the color and extruder for a part role, falling back to the defaults.
+ */
+export function partMaterial(params: Partial<MaterialParams>, role: PartRole): PartMaterial {
+  const extruder = params[`${role}Extruder`] ?? defaultPartMaterials[role].extruder;
+  if (!Number.isInteger(extruder) || extruder < 1) {
+    throw new Error(`Invalid extruder for ${partRoleLabels[role]}: ${extruder} (expected 1 or higher)`);
+  }
+
+  return {
+    color: normalizeColor(params[`${role}Color`] ?? defaultPartMaterials[role].color),
+    extruder,
+  };
+}
@@ -0,0 +1,80 @@
+/**
+ * OBJ Exporter for Makerchip.
+ * Writes one object per part, with the part colors in a companion .mtl file.
+ */
+
+// @ts-ignore - No type declarations available
+import type { Exporter, ExportResult } from '@cadit-app/script-params';
+import { strToU8, Zippable, zipSync } from 'fflate';
+import { assembleMakerchipParts } from './assembly';
+import type { MakerchipPart } from './assembly';
+import { partMaterial, partName } from './materials';
+import type { MaterialParams } from './materials';
+import type { MakerChipParams } from './params';
+
+/**
+ * Generate OBJ and MTL content for the parts. The OBJ references the
+ * materials by `mtlFileName`, so both files must be kept side by side.
+ */
+export function generateObj(
+  parts: MakerchipPart[],
+  params: Partial<MaterialParams>,
+  mtlFileName = 'makerchip.mtl'
+): { obj: string; mtl: string } {
+  const objLines = ['# Makerchip OBJ export', `mtllib ${mtlFileName}`];
+  const mtlLines = ['# Makerchip materials'];
+
+  // OBJ vertex indices are 1-based and global across objects
+  let vertexOffset = 1;
+  for (const { role, shape, layer } of parts) {
+    const name = partName(role, undefined, layer);
+    const { color } = partMaterial(params, role);
+
+    // One material per part, named after it
+    const [r, g, b, a] = [1, 3, 5, 7].map((i) => parseInt(color.slice(i, i + 2), 16) / 255);
+    mtlLines.push('', `newmtl ${name}`, `Kd ${r.toFixed(4)} ${g.toFixed(4)} ${b.toFixed(4)}`, `d ${a.toFixed(4)}`);
+
+    const { numProp, vertProperties, triVerts } = shape.getMesh();
+    objLines.push(`o ${name}`, `usemtl ${name}`);
+    for (let i = 0; i < vertProperties.length; i += numProp) {
+      objLines.push(`v ${vertProperties[i]} ${vertProperties[i + 1]} ${vertProperties[i + 2]}`);
+    }
+    for (let i = 0; i < triVerts.length; i += 3) {
+      objLines.push(`f ${triVerts[i] + vertexOffset} ${triVerts[i + 1] + vertexOffset} ${triVerts[i + 2] + vertexOffset}`);
+    }
+    vertexOffset += vertProperties.length / numProp;
+  }
+
+  return { obj: objLines.join('\n') + '\n', mtl: mtlLines.join('\n') + '\n' };
+}
+
+/**
+ * Export the Makerchip as an OBJ with its .mtl, packaged in a ZIP so both
+ * files download together.
+ */
+export async function objExport(params: MakerChipParams): Promise<ExportResult> {
+  const parts = await assembleMakerchipParts(params, 'printable');
+  const { obj, mtl } = generateObj(parts, params);
+
+  const files: Zippable = {
+    'makerchip.obj': strToU8(obj),
+    'makerchip.mtl': strToU8(mtl),
+  };
+
+  const zipFile = zipSync(files);
+  return {
+    mimeType: 'application/zip',
+    fileName: 'makerchip-obj.zip',
+    data: zipFile.buffer as ArrayBuffer,
+  };
+}
+
+/**
+ * OBJ Exporter for defineParams.
+ */
+export const objExporter: Exporter<MakerChipParams> = {
+  name: 'OBJ',
+  label: 'Download OBJ',
+  description: 'Export the Makerchip as an OBJ file with part colors in an MTL file.',
+  export: objExport,
+};
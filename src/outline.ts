@@ -0,0 +1,122 @@
+/**
+ * Chip outline generation for non-circular Makerchips.
+ */
+
+import { CrossSection } from '@cadit-app/manifold-3d/manifoldCAD';
+import { scaleToSizeAndCenter } from './crossSectionUtils';
+import { decodeSvgDataUrl, parseSvgContentToCrossSection } from './utils';
+import type { FileParamValue } from './params';
+import { DEFAULT_TOLERANCE, circleSegments } from './quality';
+
+export type OutlineType = 'circle' | 'polygon' | 'roundedSquare' | 'shield' | 'custom';
+
+export type OutlineParams = {
+  outline: OutlineType;
+  /** Number of sides for the polygon outline */
+  outlineSides: number;
+  /** Rotation of the outline (degrees) */
+  outlineRotation: number;
+  /** Radius of the outline's corners (mm) */
+  outlineCornerRadius: number;
+  /** SVG file for the custom outline */
+  outlineFile?: FileParamValue | null;
+};
+
+/**
+ * Rounds the convex corners of a cross-section by shrinking and regrowing it.
+ */
+function roundCorners(shape: CrossSection, cornerRadius: number, tolerance: number): CrossSection {
+  if (cornerRadius <= 0) {
+    return shape;
+  }
+  return shape
+    .offset(-cornerRadius, 'Miter', 10)
+    .offset(cornerRadius, 'Round', 2, circleSegments(cornerRadius, tolerance));
+}
+
+/**
+ * Shield: flat top, straight sides, and curved flanks meeting in a point at the bottom.
+ */
+function shieldShape(radius: number): CrossSection {
+  // Quadratic curve from the right side down to the bottom point
+  const tip: [number, number] = [0, -1.35 * radius];
+  const control: [number, number] = [radius, -0.85 * radius];
+  const segments = 24;
+  const rightFlank: [number, number][] = [];
+  for (let i = 0; i <= segments; i++) {
+    const t = i / segments;
+    const u = 1 - t;
+    rightFlank.push([
+      u * u * radius + 2 * u * t * control[0] + t * t * tip[0],
+      2 * u * t * control[1] + t * t * tip[1],
+    ]);
+  }
+
+  // Mirror the curve for the left flank, without repeating the tip
+  const leftFlank = rightFlank
+    .slice(0, -1)
+    .reverse()
+    .map(([x, y]) => [-x, y] as [number, number]);
+
+  return new CrossSection([[[-radius, radius], [radius, radius], ...rightFlank, ...leftFlank]], 'NonZero');
+}
+
+/**
+ * Generates the chip outline, or `undefined` for the default revolved circle.
+ * Outlines are sized so that a circle of `radius` fits inside them, with
+ * curves within the chord `tolerance`.
+ */
+export async function generateOutline({
+  radius,
+  outline,
+  outlineSides,
+  outlineRotation,
+  outlineCornerRadius,
+  outlineFile,
+  tolerance = DEFAULT_TOLERANCE,
+}: OutlineParams & { radius: number; tolerance?: number }): Promise<CrossSection | undefined> {
+  let shape: CrossSection;
+
+  switch (outline) {
+    case 'polygon': {
+      // The apothem equals the chip radius, so the corners reach beyond it
+      const sides = Math.max(3, Math.round(outlineSides));
+      const circumradius = radius / Math.cos(Math.PI / sides);
+      const points: [number, number][] = [];
+      for (let i = 0; i < sides; i++) {
+        // Start half a side off the X axis so a flat edge sits at the bottom for even counts
+        const angle = -Math.PI / 2 + Math.PI / sides + (2 * Math.PI * i) / sides;
+        points.push([circumradius * Math.cos(angle), circumradius * Math.sin(angle)]);
+      }
+      shape = new CrossSection([points], 'NonZero');
+      break;
+    }
+    case 'roundedSquare':
+      shape = CrossSection.square([radius * 2, radius * 2], true);
+      break;
+    case 'shield':
+      shape = shieldShape(radius);
+      break;
+    case 'custom': {
+      if (!outlineFile?.dataUrl) {
+        throw new Error('Custom outline requires an outline SVG file');
+      }
+      const customShape = await parseSvgContentToCrossSection(decodeSvgDataUrl(outlineFile.dataUrl), tolerance, radius * 2);
+      // Custom outlines are fitted to the chip diameter instead
+      return scaleToSizeAndCenter(customShape, radius * 2, radius * 2).rotate(outlineRotation);
+    }
+    default:
+      return undefined;
+  }
+
+  const maxCornerRadius = radius * 0.9;
+  return roundCorners(shape, Math.min(outlineCornerRadius, maxCornerRadius), tolerance).rotate(outlineRotation);
+}
+
+/**
+ * Radius of the circle around the chip center that holds the whole outline,
+ * so a pattern sized to it reaches the outline's corners.
+ */
+export function outlineRadius(outline: CrossSection): number {
+  return Math.max(...outline.toPolygons().flat().map(([x, y]: [number, number]) => Math.hypot(x, y)));
+}
@@ -2,7 +2,34 @@
  * Parameter schema for the Makerchip generator.
  */
 
-import { svgDataUrls } from './embeddedSvgs';
+import { DEFAULT_PATTERN, patternCatalog, patternDataUrl } from './patterns';
+import { defaultProceduralPatternParams } from './proceduralPatterns';
+import type { ProceduralPatternParams } from './proceduralPatterns';
+import { defaultPatternTransformParams } from './patternTransform';
+import type { PatternTransformParams } from './patternTransform';
+import type { PatternLayer } from './patternLayers';
+import { defaultEdgeProfileParams } from './edgeProfile';
+import type { EdgeProfileParams } from './edgeProfile';
+import { defaultQualityParams, qualityTolerances } from './quality';
+import type { QualityParams } from './quality';
+import type { OutlineParams } from './outline';
+import type { TextParams } from './text';
+import type { HangingParams } from './hanging';
+import type { PocketParams } from './pocket';
+import { defaultPartMaterials } from './materials';
+import type { MaterialParams } from './materials';
+import { defaultColorChangeParams } from './colorChange';
+import type { ColorChangeParams } from './colorChange';
+import { defaultLaserParams } from './laserExport';
+import type { LaserParams } from './laserExport';
+import { defaultQrFitParams } from './qrFit';
+import type { QrFitParams } from './qrFit';
+import { defaultInlayParams } from './inlay';
+import type { InlayParams } from './inlay';
+import { defaultReliefParams } from './relief';
+import { defaultEmbedPlacementParams } from './embedPlacement';
+import type { EmbedPlacementParams } from './embedPlacement';
+import type { ReliefParams } from './relief';
 import qrCodeMaker from '@cadit-app/qr-code';
 import imageExtrudeMaker from '@cadit-app/image-extrude';
 import { embedParams } from '@cadit-app/script-params';
@@ -54,11 +81,87 @@ export const makerChipParamsSchema = {
     default: 1,
     min: 0,
   },
+  edgeProfile: {
+    type: 'choice',
+    label: 'Edge Profile',
+    options: [
+      { value: 'round', label: 'Round' },
+      { value: 'chamfer', label: 'Chamfer' },
+    ],
+    default: defaultEdgeProfileParams.edgeProfile,
+  },
+  bottomRoundingRadius: {
+    type: 'number',
+    label: 'Bottom Edge Size (mm, -1 = same as top)',
+    default: defaultEdgeProfileParams.bottomRoundingRadius,
+    min: -1,
+  },
+  rimLipHeight: {
+    type: 'number',
+    label: 'Rim Lip Height (mm, 0 = none)',
+    default: defaultEdgeProfileParams.rimLipHeight,
+    min: 0,
+  },
+  rimLipWidth: {
+    type: 'number',
+    label: 'Rim Lip Width (mm)',
+    default: defaultEdgeProfileParams.rimLipWidth,
+    min: 0.2,
+  },
+  reedCount: {
+    type: 'number',
+    label: 'Reeded Edge Ridges (0 = smooth)',
+    default: defaultEdgeProfileParams.reedCount,
+    min: 0,
+    max: 360,
+  },
+  reedDepth: {
+    type: 'number',
+    label: 'Reed Depth (mm)',
+    default: defaultEdgeProfileParams.reedDepth,
+    min: 0,
+  },
   centerCircleRadius: {
     type: 'number',
     label: 'Center Circle Radius (mm)',
     default: 14,
   },
+  outline: {
+    type: 'choice',
+    label: 'Chip Outline',
+    options: [
+      { value: 'circle', label: 'Circle' },
+      { value: 'polygon', label: 'Polygon' },
+      { value: 'roundedSquare', label: 'Rounded Square' },
+      { value: 'shield', label: 'Shield' },
+      { value: 'custom', label: 'Custom SVG' },
+    ],
+    default: 'circle',
+  },
+  outlineSides: {
+    type: 'number',
+    label: 'Polygon Sides',
+    default: 6,
+    min: 3,
+    max: 24,
+  },
+  outlineRotation: {
+    type: 'number',
+    label: 'Outline Rotation (°)',
+    default: 0,
+  },
+  outlineCornerRadius: {
+    type: 'number',
+    label: 'Outline Corner Radius (mm)',
+    default: 2,
+    min: 0,
+  },
+  outlineFile: {
+    type: 'file',
+    label: 'Custom Outline SVG',
+    accept: '.svg,image/svg+xml',
+    default: null,
+  },
   assemblyType: {
     type: 'choice',
     label: 'Assembly Type',
@@ -68,32 +171,575 @@ export const makerChipParamsSchema = {
     ],
     default: 'flat',
   },
+  quality: {
+    type: 'choice',
+    label: 'Quality',
+    options: [
+      { value: 'draft', label: `Draft (${qualityTolerances.draft} mm)` },
+      { value: 'normal', label: `Normal (${qualityTolerances.normal} mm)` },
+      { value: 'fine', label: `Fine (${qualityTolerances.fine} mm)` },
+      { value: 'custom', label: 'Custom Tolerance' },
+    ],
+    default: defaultQualityParams.quality,
+  },
+  qualityTolerance: {
+    type: 'number',
+    label: 'Custom Chord Tolerance (mm)',
+    default: defaultQualityParams.qualityTolerance,
+    min: 0.0005,
+    max: 1,
+  },
+  inlay: {
+    type: 'boolean',
+    label: 'Flush Inlay (disjoint parts)',
+    default: defaultInlayParams.inlay,
+  },
+  inlayDepth: {
+    type: 'number',
+    label: 'Inlay Depth (mm, 0 = full height)',
+    default: defaultInlayParams.inlayDepth,
+    min: 0,
+  },
+  markingOffset: {
+    type: 'number',
+    label: 'Relief: Marking Offset (mm, above top, - to recess)',
+    default: defaultReliefParams.markingOffset,
+  },
+  markingThickness: {
+    type: 'number',
+    label: 'Relief: Marking Thickness (mm, 0 = full height)',
+    default: defaultReliefParams.markingThickness,
+    min: 0,
+  },
+  centerOffset: {
+    type: 'number',
+    label: 'Relief: Center Disk Offset (mm, above top, - to recess)',
+    default: defaultReliefParams.centerOffset,
+  },
+  centerThickness: {
+    type: 'number',
+    label: 'Relief: Center Disk Thickness (mm, 0 = full height)',
+    default: defaultReliefParams.centerThickness,
+    min: 0,
+  },
+  qrOffset: {
+    type: 'number',
+    label: 'Relief: QR Code Offset (mm, from its face, - to recess)',
+    default: defaultReliefParams.qrOffset,
+  },
+  qrThickness: {
+    type: 'number',
+    label: 'Relief: QR Code Thickness (mm, 0 = QR height)',
+    default: defaultReliefParams.qrThickness,
+    min: 0,
+  },
+  imageOffset: {
+    type: 'number',
+    label: 'Relief: Image Offset (mm, from its face, - to recess)',
+    default: defaultReliefParams.imageOffset,
+  },
+  imageThickness: {
+    type: 'number',
+    label: 'Relief: Image Thickness (mm, 0 = image height)',
+    default: defaultReliefParams.imageThickness,
+    min: 0,
+  },
+  qrFace: {
+    type: 'choice',
+    label: 'QR Code Face',
+    options: [
+      { value: 'top', label: 'Top' },
+      { value: 'bottom', label: 'Bottom' },
+      { value: 'both', label: 'Both' },
+    ],
+    default: defaultEmbedPlacementParams.qrFace,
+  },
+  qrMode: {
+    type: 'choice',
+    label: 'QR Code Style',
+    options: [
+      { value: 'emboss', label: 'Raised (emboss)' },
+      { value: 'deboss', label: 'Flush (deboss)' },
+    ],
+    default: defaultEmbedPlacementParams.qrMode,
+  },
+  qrRotation: {
+    type: 'number',
+    label: 'QR Code Rotation (degrees)',
+    default: defaultEmbedPlacementParams.qrRotation,
+  },
+  qrPositionX: {
+    type: 'number',
+    label: 'QR Code Offset X (mm)',
+    default: defaultEmbedPlacementParams.qrPositionX,
+  },
+  qrPositionY: {
+    type: 'number',
+    label: 'QR Code Offset Y (mm)',
+    default: defaultEmbedPlacementParams.qrPositionY,
+  },
+  imageFace: {
+    type: 'choice',
+    label: 'Image Face',
+    options: [
+      { value: 'top', label: 'Top' },
+      { value: 'bottom', label: 'Bottom' },
+      { value: 'both', label: 'Both' },
+    ],
+    default: defaultEmbedPlacementParams.imageFace,
+  },
+  imageMode: {
+    type: 'choice',
+    label: 'Image Style',
+    options: [
+      { value: 'emboss', label: 'Raised (emboss)' },
+      { value: 'deboss', label: 'Flush (deboss)' },
+    ],
+    default: defaultEmbedPlacementParams.imageMode,
+  },
+  imageRotation: {
+    type: 'number',
+    label: 'Image Rotation (degrees)',
+    default: defaultEmbedPlacementParams.imageRotation,
+  },
+  imagePositionX: {
+    type: 'number',
+    label: 'Image Offset X (mm)',
+    default: defaultEmbedPlacementParams.imagePositionX,
+  },
+  imagePositionY: {
+    type: 'number',
+    label: 'Image Offset Y (mm)',
+    default: defaultEmbedPlacementParams.imagePositionY,
+  },
   markings: {
     type: 'buttonGrid',
     label: 'Pattern Style',
+    options: patternCatalog.map((pattern) => ({
+      value: pattern.id,
+      label: pattern.name,
+      image: patternDataUrl(pattern),
+    })),
+    default: DEFAULT_PATTERN,
+  },
+  patternRotation: {
+    type: 'number',
+    label: 'Pattern Rotation (°)',
+    default: defaultPatternTransformParams.patternRotation,
+  },
+  patternMirror: {
+    type: 'boolean',
+    label: 'Mirror Pattern',
+    default: defaultPatternTransformParams.patternMirror,
+  },
+  patternInvert: {
+    type: 'boolean',
+    label: 'Invert Pattern (fill the gaps)',
+    default: defaultPatternTransformParams.patternInvert,
+  },
+  patternInnerRadius: {
+    type: 'number',
+    label: 'Pattern Band: Inner Radius (mm, 0 = none)',
+    default: defaultPatternTransformParams.patternInnerRadius,
+    min: 0,
+  },
+  patternOuterRadius: {
+    type: 'number',
+    label: 'Pattern Band: Outer Radius (mm, 0 = chip edge)',
+    default: defaultPatternTransformParams.patternOuterRadius,
+    min: 0,
+  },
+  // Procedural pattern params (only used by the generated pattern styles)
+  patternBandWidth: {
+    type: 'number',
+    label: 'Pattern Band Width (mm)',
+    default: defaultProceduralPatternParams.patternBandWidth,
+    min: 0.5,
+  },
+  notchCount: {
+    type: 'number',
+    label: 'Notches: Count',
+    default: defaultProceduralPatternParams.notchCount,
+    min: 1,
+    max: 180,
+  },
+  notchWidth: {
+    type: 'number',
+    label: 'Notches: Width (°)',
+    default: defaultProceduralPatternParams.notchWidth,
+    min: 1,
+    max: 180,
+  },
+  notchDepth: {
+    type: 'number',
+    label: 'Notches: Depth (mm)',
+    default: defaultProceduralPatternParams.notchDepth,
+    min: 0.1,
+  },
+  wedgeCount: {
+    type: 'number',
+    label: 'Wedges: Count',
+    default: defaultProceduralPatternParams.wedgeCount,
+    min: 1,
+    max: 90,
+  },
+  wedgeAngle: {
+    type: 'number',
+    label: 'Wedges: Angle (°)',
+    default: defaultProceduralPatternParams.wedgeAngle,
+    min: 1,
+    max: 360,
+  },
+  ringCount: {
+    type: 'number',
+    label: 'Rings: Count',
+    default: defaultProceduralPatternParams.ringCount,
+    min: 1,
+    max: 20,
+  },
+  ringWidth: {
+    type: 'number',
+    label: 'Rings: Width (mm)',
+    default: defaultProceduralPatternParams.ringWidth,
+    min: 0.2,
+  },
+  ringGap: {
+    type: 'number',
+    label: 'Rings: Gap (mm)',
+    default: defaultProceduralPatternParams.ringGap,
+    min: 0.2,
+  },
+  gearTeethCount: {
+    type: 'number',
+    label: 'Gear: Teeth',
+    default: defaultProceduralPatternParams.gearTeethCount,
+    min: 3,
+    max: 180,
+  },
+  gearToothDepth: {
+    type: 'number',
+    label: 'Gear: Tooth Depth (mm)',
+    default: defaultProceduralPatternParams.gearToothDepth,
+    min: 0.1,
+  },
+  dashCount: {
+    type: 'number',
+    label: 'Dashes: Count',
+    default: defaultProceduralPatternParams.dashCount,
+    min: 1,
+    max: 180,
+  },
+  dashLength: {
+    type: 'number',
+    label: 'Dashes: Length (% of spacing)',
+    default: defaultProceduralPatternParams.dashLength,
+    min: 1,
+    max: 95,
+  },
+  dashWidth: {
+    type: 'number',
+    label: 'Dashes: Width (mm)',
+    default: defaultProceduralPatternParams.dashWidth,
+    min: 0.2,
+  },
+  dashInset: {
+    type: 'number',
+    label: 'Dashes: Inset from Edge (mm)',
+    default: defaultProceduralPatternParams.dashInset,
+    min: 0,
+  },
+  markingsFile: {
+    type: 'file',
+    label: 'Custom Pattern SVG (overrides Pattern Style)',
+    accept: '.svg,image/svg+xml',
+    default: null,
+  },
+  textContent: {
+    type: 'text',
+    label: 'Text (Optional)',
+    default: '',
+  },
+  textFontSize: {
+    type: 'number',
+    label: 'Text Size (mm)',
+    default: 3,
+    min: 1,
+  },
+  textArcRadius: {
+    type: 'number',
+    label: 'Text Arc Radius (mm, 0 for straight)',
+    default: 17,
+    min: 0,
+  },
+  textStartAngle: {
+    type: 'number',
+    label: 'Text Start Angle (°, 90 = top)',
+    default: 150,
+  },
+  textFace: {
+    type: 'choice',
+    label: 'Text Face',
+    options: [
+      { value: 'top', label: 'Top' },
+      { value: 'bottom', label: 'Bottom' },
+    ],
+    default: 'top',
+  },
+  textMode: {
+    type: 'choice',
+    label: 'Text Style',
+    options: [
+      { value: 'emboss', label: 'Raised (emboss)' },
+      { value: 'deboss', label: 'Recessed (deboss)' },
+    ],
+    default: 'emboss',
+  },
+  textDepth: {
+    type: 'number',
+    label: 'Text Height/Depth (mm)',
+    default: 0.6,
+    min: 0.1,
+  },
+  hangingFeature: {
+    type: 'choice',
+    label: 'Keychain Feature',
+    options: [
+      { value: 'none', label: 'None' },
+      { value: 'hole', label: 'Through-hole' },
+      { value: 'tab', label: 'Tab loop on the rim' },
+      { value: 'slot', label: 'Split ring slot' },
+    ],
+    default: 'none',
+  },
+  hangingAngle: {
+    type: 'number',
+    label: 'Keychain Position (°, 90 = top)',
+    default: 90,
+  },
+  hangingInset: {
+    type: 'number',
+    label: 'Hole/Slot Inset from Edge (mm)',
+    default: 3.5,
+    min: 0,
+  },
+  hangingHoleDiameter: {
+    type: 'number',
+    label: 'Hole Diameter / Slot Width (mm)',
+    default: 4,
+    min: 1,
+  },
+  hangingSlotLength: {
+    type: 'number',
+    label: 'Slot Length (mm)',
+    default: 10,
+    min: 1,
+  },
+  hangingTabWall: {
+    type: 'number',
+    label: 'Tab Loop Wall (mm)',
+    default: 2,
+    min: 0.8,
+  },
+  pocketType: {
+    type: 'choice',
+    label: 'Insert Pocket',
+    options: [
+      { value: 'none', label: 'None' },
+      { value: 'magnet6x2', label: 'Magnet 6 × 2 mm' },
+      { value: 'magnet6x3', label: 'Magnet 6 × 3 mm' },
+      { value: 'magnet8x3', label: 'Magnet 8 × 3 mm' },
+      { value: 'magnet10x2', label: 'Magnet 10 × 2 mm' },
+      { value: 'magnet10x3', label: 'Magnet 10 × 3 mm' },
+      { value: 'magnet12x3', label: 'Magnet 12 × 3 mm' },
+      { value: 'ntag213', label: 'NTAG213 sticker (25 mm)' },
+      { value: 'ntag215', label: 'NTAG215 sticker (25 mm)' },
+      { value: 'cr2032', label: 'CR2032 coin cell' },
+      { value: 'custom', label: 'Custom size' },
+    ],
+    default: 'none',
+  },
+  pocketFace: {
+    type: 'choice',
+    label: 'Pocket Face',
+    options: [
+      { value: 'bottom', label: 'Bottom' },
+      { value: 'top', label: 'Top' },
+    ],
+    default: 'bottom',
+  },
+  pocketDiameter: {
+    type: 'number',
+    label: 'Custom Pocket Diameter (mm)',
+    default: 10,
+    min: 1,
+  },
+  pocketDepth: {
+    type: 'number',
+    label: 'Custom Pocket Depth (mm)',
+    default: 2,
+    min: 0.2,
+  },
+  pocketClearance: {
+    type: 'number',
+    label: 'Pocket Clearance (mm)',
+    default: 0.2,
+    min: 0,
+  },
+  pocketWall: {
+    type: 'number',
+    label: 'Pocket Wall Thickness (mm)',
+    default: 0.6,
+    min: 0.2,
+  },
+  pocketPrintInPlace: {
+    type: 'boolean',
+    label: 'Print in Place (pause to insert)',
+    default: false,
+  },
+  baseColor: {
+    type: 'text',
+    label: 'Base Color',
+    default: defaultPartMaterials.base.color,
+  },
+  baseExtruder: {
+    type: 'number',
+    label: 'Base Extruder',
+    default: defaultPartMaterials.base.extruder,
+    min: 1,
+    max: 16,
+  },
+  centerColor: {
+    type: 'text',
+    label: 'Center Color',
+    default: defaultPartMaterials.center.color,
+  },
+  centerExtruder: {
+    type: 'number',
+    label: 'Center Extruder',
+    default: defaultPartMaterials.center.extruder,
+    min: 1,
+    max: 16,
+  },
+  markingColor: {
+    type: 'text',
+    label: 'Marking Color',
+    default: defaultPartMaterials.marking.color,
+  },
+  markingExtruder: {
+    type: 'number',
+    label: 'Marking Extruder',
+    default: defaultPartMaterials.marking.extruder,
+    min: 1,
+    max: 16,
+  },
+  qrColor: {
+    type: 'text',
+    label: 'QR Code Color',
+    default: defaultPartMaterials.qr.color,
+  },
+  qrExtruder: {
+    type: 'number',
+    label: 'QR Code Extruder',
+    default: defaultPartMaterials.qr.extruder,
+    min: 1,
+    max: 16,
+  },
+  imageColor: {
+    type: 'text',
+    label: 'Image Color',
+    default: defaultPartMaterials.image.color,
+  },
+  imageExtruder: {
+    type: 'number',
+    label: 'Image Extruder',
+    default: defaultPartMaterials.image.extruder,
+    min: 1,
+    max: 16,
+  },
+  textColor: {
+    type: 'text',
+    label: 'Text Color',
+    default: defaultPartMaterials.text.color,
+  },
+  textExtruder: {
+    type: 'number',
+    label: 'Text Extruder',
+    default: defaultPartMaterials.text.extruder,
+    min: 1,
+    max: 16,
+  },
+  qrAutoFit: {
+    type: 'boolean',
+    label: 'QR: Fit to Center Circle',
+    default: defaultQrFitParams.qrAutoFit,
+  },
+  qrMargin: {
+    type: 'number',
+    label: 'QR: Margin to Center Edge (mm)',
+    default: defaultQrFitParams.qrMargin,
+    min: 0,
+  },
+  qrErrorCorrection: {
+    type: 'choice',
+    label: 'QR: Error Correction',
     options: [
-      { value: 'makerChipV1', image: svgDataUrls.makerChipV1 },
-      { value: 'makerChipV2', image: svgDataUrls.makerChipV2 },
-      { value: 'makerChipV3', image: svgDataUrls.makerChipV3 },
-      { value: 'makerChipV4', image: svgDataUrls.makerChipV4 },
-      { value: 'makerChipV5', image: svgDataUrls.makerChipV5 },
-      { value: 'makerChipV6', image: svgDataUrls.makerChipV6 },
-      { value: 'makerChipV7', image: svgDataUrls.makerChipV7 },
-      { value: 'makerChipV8', image: svgDataUrls.makerChipV8 },
-      { value: 'makerChipV9', image: svgDataUrls.makerChipV9 },
-      { value: 'makerChipV10', image: svgDataUrls.makerChipV10 },
-      { value: 'makerChipV11', image: svgDataUrls.makerChipV11 },
-      { value: 'makerChipV12', image: svgDataUrls.makerChipV12 },
-      { value: 'makerChipV13', image: svgDataUrls.makerChipV13 },
-      { value: 'makerChipV14', image: svgDataUrls.makerChipV14 },
-      { value: 'makerChipV15', image: svgDataUrls.makerChipV15 },
-      { value: 'makerChipV16', image: svgDataUrls.makerChipV16 },
-      { value: 'makerChipV17', image: svgDataUrls.makerChipV17 },
-      { value: 'makerChipV18', image: svgDataUrls.makerChipV18 },
-      { value: 'makerChipV19', image: svgDataUrls.makerChipV19 },
-      { value: 'makerChipV20', image: svgDataUrls.makerChipV20 },
+      { value: 'auto', label: 'Auto (highest that prints)' },
+      { value: 'L', label: 'L (7%)' },
+      { value: 'M', label: 'M (15%)' },
+      { value: 'Q', label: 'Q (25%)' },
+      { value: 'H', label: 'H (30%)' },
     ],
-    default: 'makerChipV1',
+    default: defaultQrFitParams.qrErrorCorrection,
+  },
+  nozzleDiameter: {
+    type: 'number',
+    label: 'Nozzle Diameter (mm)',
+    default: defaultQrFitParams.nozzleDiameter,
+    min: 0.1,
+    max: 1.2,
+  },
+  layerHeight: {
+    type: 'number',
+    label: 'Single Extruder: Layer Height (mm)',
+    default: defaultColorChangeParams.layerHeight,
+    min: 0.04,
+    max: 1,
+  },
+  reliefHeight: {
+    type: 'number',
+    label: 'Single Extruder: Relief Height (mm)',
+    default: defaultColorChangeParams.reliefHeight,
+    min: 0.1,
+  },
+  laserKerf: {
+    type: 'number',
+    label: 'Laser: Kerf Width (mm)',
+    default: defaultLaserParams.laserKerf,
+    min: 0,
+    max: 1,
+  },
+  laserNested: {
+    type: 'boolean',
+    label: 'Laser: Nest Layers on Sheets',
+    default: defaultLaserParams.laserNested,
+  },
+  laserSheetWidth: {
+    type: 'number',
+    label: 'Laser: Sheet Width (mm)',
+    default: defaultLaserParams.laserSheetWidth,
+    min: 10,
+  },
+  laserSheetHeight: {
+    type: 'number',
+    label: 'Laser: Sheet Height (mm)',
+    default: defaultLaserParams.laserSheetHeight,
+    min: 10,
+  },
+  laserGap: {
+    type: 'number',
+    label: 'Laser: Gap Between Layers (mm)',
+    default: defaultLaserParams.laserGap,
+    min: 0,
   },
   qrCodeSettings: embedParams('@cadit-app/qr-code', {
     type: 'embedded',
@@ -111,13 +757,38 @@ export const makerChipParamsSchema = {
   }),
 } as const;
 
-export type MakerChipParams = {
+/**
+ * An uploaded file, as provided by a file param.
+ */
+export type FileParamValue = {
+  dataUrl?: string;
+  fileType?: string;
+  fileName?: string;
+};
+
+export type MakerChipParams = ProceduralPatternParams &
+  PatternTransformParams &
+  EdgeProfileParams &
+  QualityParams &
+  OutlineParams &
+  TextParams &
+  HangingParams &
+  PocketParams &
+  MaterialParams &
+  ColorChangeParams &
+  LaserParams &
+  QrFitParams &
+  InlayParams &
+  ReliefParams &
+  EmbedPlacementParams & {
   radius: number;
   height: number;
   roundingRadius: number;
   centerCircleRadius: number;
   assemblyType: 'flat' | 'printable';
-  markings: string;
+  /** Pattern id, or pattern layers from the bottom up */
+  markings: string | PatternLayer[];
+  markingsFile?: FileParamValue | null;
   qrCodeSettings: EmbeddedParamValue<typeof qrCodeParamsWithOverrides>;
   imageExtrudeSettings: EmbeddedParamValue<typeof imageExtrudeParamsWithOverrides>;
 };
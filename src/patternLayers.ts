@@ -0,0 +1,101 @@
+/**
+ * Pattern layers for Makerchip: several patterns combined on one chip, each
+ * in its own ring band, at its own height and in its own color.
+ */
+
+import type { PartRole } from './assembly';
+import { partRoles } from './materials';
+import type { MakerChipParams } from './params';
+import type { PatternTransformParams } from './patternTransform';
+
+/**
+ * One pattern layer. Settings that are left out are taken from the chip's
+ * pattern transform and marking relief params.
+ */
+export type PatternLayer = {
+  /** Pattern id from the catalog, or `custom` for the custom pattern SVG */
+  pattern: string;
+  /** Radius the layer's ring is squeezed outside of; 0 keeps it all (mm) */
+  innerRadius?: number;
+  /** Radius the layer's outer edge is scaled to; 0 for the chip edge (mm) */
+  outerRadius?: number;
+  /** Height of the layer's top above the chip's top face; negative to recess (mm) */
+  offset?: number;
+  /** Thickness of the layer below its top; 0 reaches the bottom face (mm) */
+  thickness?: number;
+  /** Part whose color and extruder the layer prints with */
+  role?: PartRole;
+  /** Counter-clockwise rotation (degrees) */
+  rotation?: number;
+  mirror?: boolean;
+  invert?: boolean;
+};
+
+export type ResolvedPatternLayer = PatternTransformParams & {
+  pattern: string;
+  offset: number;
+  thickness: number;
+  role: PartRole;
+};
+
+/**
+ * The chip's pattern layers, bottom first, with every setting filled in.
+ * A single pattern id is one layer with the chip's own settings.
+ */
+export function resolvePatternLayers(params: MakerChipParams): ResolvedPatternLayer[] {
+  const layers: PatternLayer[] = Array.isArray(params.markings) ? params.markings : [{ pattern: params.markings }];
+  return layers.map((layer) => ({
+    pattern: layer.pattern,
+    patternInnerRadius: layer.innerRadius ?? params.patternInnerRadius,
+    patternOuterRadius: layer.outerRadius ?? params.patternOuterRadius,
+    patternRotation: layer.rotation ?? params.patternRotation,
+    patternMirror: layer.mirror ?? params.patternMirror,
+    patternInvert: layer.invert ?? params.patternInvert,
+    offset: layer.offset ?? params.markingOffset,
+    thickness: layer.thickness ?? params.markingThickness,
+    role: layer.role ?? 'marking',
+  }));
+}
+
+const numberKeys = {
+  inner: 'innerRadius',
+  outer: 'outerRadius',
+  offset: 'offset',
+  thickness: 'thickness',
+  rotation: 'rotation',
+} as const;
+
+/**
+ * Parses a layer spec such as `portholes,inner=14,outer=17,role=center,offset=0.4`:
+ * the pattern, then `key=value` settings. `mirror` and `invert` take no value.
+ */
+export function parsePatternLayer(spec: string): PatternLayer {
+  const [pattern, ...settings] = spec.split(',').map((part) => part.trim());
+  if (!pattern) {
+    throw new Error(`Pattern layer needs a pattern: ${spec}`);
+  }
+
+  const layer: PatternLayer = { pattern };
+  for (const setting of settings) {
+    const [key, value] = setting.split('=', 2);
+    if (key === 'mirror' || key === 'invert') {
+      layer[key] = value === undefined || value === 'true';
+    } else if (key === 'role') {
+      if (!partRoles.includes(value as PartRole)) {
+        throw new Error(`Unknown role in pattern layer: ${value} (expected ${partRoles.join(', ')})`);
+      }
+      layer.role = value as PartRole;
+    } else if (key in numberKeys) {
+      const number = Number(value);
+      if (value === undefined || Number.isNaN(number)) {
+        throw new Error(`Invalid number for ${key} in pattern layer: ${spec}`);
+      }
+      layer[numberKeys[key as keyof typeof numberKeys]] = number;
+    } else {
+      throw new Error(
+        `Unknown pattern layer setting: ${key} (expected ${[...Object.keys(numberKeys), 'role', 'mirror', 'invert'].join(', ')})`
+      );
+    }
+  }
+  return layer;
+}
@@ -0,0 +1,94 @@
+/**
+ * Pattern transforms for Makerchip: rotate, mirror or invert any marking
+ * pattern, and fit it into a ring band, so each pattern has several looks.
+ */
+
+import { CrossSection } from '@cadit-app/manifold-3d/manifoldCAD';
+import { DEFAULT_TOLERANCE, circleSegments } from './quality';
+
+export type PatternTransformParams = {
+  /** Counter-clockwise rotation of the pattern (degrees) */
+  patternRotation: number;
+  /** Mirror the pattern left to right */
+  patternMirror: boolean;
+  /** Fill the gaps of the pattern's ring instead of the pattern itself */
+  patternInvert: boolean;
+  /** Radius the pattern's ring is squeezed outside of; 0 keeps it all (mm) */
+  patternInnerRadius: number;
+  /** Radius the pattern's outer edge is scaled to; 0 for the chip edge (mm) */
+  patternOuterRadius: number;
+};
+
+export const defaultPatternTransformParams: PatternTransformParams = {
+  patternRotation: 0,
+  patternMirror: false,
+  patternInvert: false,
+  patternInnerRadius: 0,
+  patternOuterRadius: 0,
+};
+
+/**
+ * Inner and outer radius of the ring a pattern sized to `radius` is fitted into.
+ * The inner radius is 0 when the pattern is not clipped.
+ */
+export function patternBand(params: PatternTransformParams, radius: number): { inner: number; outer: number } {
+  const outer = params.patternOuterRadius > 0 ? Math.min(params.patternOuterRadius, radius) : radius;
+  return { inner: Math.max(params.patternInnerRadius, 0), outer };
+}
+
+/**
+ * Applies the pattern transforms to a pattern centered on the chip with its
+ * outer edge at `radius`. The pattern's own ring, from `ringRadius` (the
+ * center circle without one) to its edge, is squeezed radially into the band;
+ * without an inner radius the pattern is scaled down evenly to the outer
+ * radius. Anything inside the band's inner radius is cut away. An inverted
+ * pattern fills its ring, from the band's inner radius (or the center circle
+ * without one) to its outer edge, where the pattern is empty. The band's
+ * circles are divided to stay within the chord `tolerance`.
+ */
+export function transformPattern(
+  shape: CrossSection,
+  radius: number,
+  params: PatternTransformParams & {
+    centerCircleRadius: number;
+    /** Inner radius of the pattern's own ring, as drawn at `radius` */
+    ringRadius?: number;
+  },
+  tolerance: number = DEFAULT_TOLERANCE
+): CrossSection {
+  const { inner, outer } = patternBand(params, radius);
+  const circle = (r: number) => CrossSection.circle(r, circleSegments(r, tolerance));
+
+  let transformed = params.patternMirror ? shape.mirror([1, 0]) : shape;
+  if (params.patternRotation) {
+    transformed = transformed.rotate(params.patternRotation);
+  }
+
+  const ringRadius = params.ringRadius ?? params.centerCircleRadius;
+  if (inner > 0 && inner < outer && ringRadius > 0 && ringRadius < radius) {
+    // Map the ring onto the band, and the pattern's center inside the band's inner radius
+    const ringScale = (outer - inner) / (radius - ringRadius);
+    transformed = transformed.warp((vert: [number, number]) => {
+      const r = Math.hypot(vert[0], vert[1]);
+      if (r === 0) {
+        return;
+      }
+      const mapped = r < ringRadius ? (r * inner) / ringRadius : inner + (r - ringRadius) * ringScale;
+      vert[0] *= mapped / r;
+      vert[1] *= mapped / r;
+    });
+  } else if (outer < radius) {
+    transformed = transformed.scale(outer / radius);
+  }
+
+  if (params.patternInvert) {
+    const ringInner = inner > 0 ? inner : Math.min(params.centerCircleRadius, outer);
+    const ring = circle(outer).subtract(circle(ringInner));
+    transformed = ring.subtract(transformed);
+  }
+
+  if (inner > 0) {
+    transformed = transformed.subtract(circle(inner));
+  }
+  return transformed;
+}
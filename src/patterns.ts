@@ -0,0 +1,143 @@
+/**
+ * Pattern catalog for Makerchip: every built-in marking pattern with its
+ * display name, tags, symmetry, attribution and intended center circle.
+ */
+
+import { embeddedSvgs } from './embeddedSvgs';
+import { proceduralPatternPreviewSvg } from './proceduralPatterns';
+import type { ProceduralPatternName } from './proceduralPatterns';
+
+const K2_KEVIN = {
+  author: 'K2_Kevin',
+  attribution:
+    'Original Makerchip design by K2_Kevin (https://makerworld.com/en/@K2_Kevin), ' +
+    'converted to SVG from https://makerworld.com/en/models/415825-makerchip-maker-chip',
+};
+
+const CADIT = { author: 'CADit' };
+
+type PatternSource =
+  | { kind: 'svg'; /** Key in the embedded SVG library */ svgKey: string }
+  | { kind: 'procedural'; /** Generator in proceduralPatterns */ generator: ProceduralPatternName };
+
+export type PatternInfo = PatternSource & {
+  id: string;
+  name: string;
+  tags: string[];
+  /** How many times the pattern repeats in a full turn; 0 if it looks the same at any angle */
+  symmetry: number;
+  author: string;
+  /** Credit line for derived designs */
+  attribution?: string;
+  /** Center circle radius the pattern is drawn around, as a fraction of the chip radius */
+  centerRadius: number;
+  /** Older ids that still select this pattern */
+  aliases: string[];
+};
+
+const svgPattern = (
+  version: number,
+  id: string,
+  name: string,
+  tags: string[],
+  symmetry: number,
+  centerRadius: number
+): PatternInfo => ({
+  kind: 'svg',
+  svgKey: `makerChipV${version}`,
+  id,
+  name,
+  tags,
+  symmetry,
+  ...K2_KEVIN,
+  centerRadius,
+  aliases: [`makerChipV${version}`],
+});
+
+// Procedural patterns repeat as often as their count param says; symmetry is for the defaults
+const proceduralPattern = (
+  generator: ProceduralPatternName,
+  name: string,
+  tags: string[],
+  symmetry: number
+): PatternInfo => ({
+  kind: 'procedural',
+  generator,
+  id: generator,
+  name,
+  tags: [...tags, 'procedural'],
+  symmetry,
+  ...CADIT,
+  centerRadius: 0.85,
+  aliases: [],
+});
+
+/**
+ * All built-in patterns, in button grid order.
+ */
+export const patternCatalog: PatternInfo[] = [
+  svgPattern(1, 'classicDashed', 'Classic Dashed', ['classic', 'blocks', 'dashed'], 6, 0.65),
+  svgPattern(2, 'sixNotch', 'Six Notch', ['notched', 'minimal'], 6, 0.72),
+  svgPattern(3, 'solidSixNotch', 'Solid Six Notch', ['notched', 'minimal', 'solid'], 6, 0.8),
+  svgPattern(4, 'scallopedRails', 'Scalloped Rails', ['scalloped', 'dashed', 'rings'], 3, 0.58),
+  svgPattern(5, 'solidDashed', 'Solid Dashed', ['classic', 'blocks', 'dashed', 'solid'], 6, 0.65),
+  svgPattern(6, 'staggeredBlocks', 'Staggered Blocks', ['blocks', 'dashed'], 6, 0.75),
+  svgPattern(7, 'castellated', 'Castellated', ['blocks', 'crenellated'], 6, 0.68),
+  svgPattern(8, 'scallopedGear', 'Scalloped Gear', ['gear', 'scalloped'], 12, 0.75),
+  svgPattern(9, 'scallopedGearDashed', 'Scalloped Gear Dashed', ['gear', 'scalloped', 'dashed'], 3, 0.68),
+  svgPattern(10, 'portholes', 'Portholes', ['dots', 'holes'], 6, 0.73),
+  svgPattern(11, 'blockGear', 'Block Gear', ['gear', 'blocks'], 1, 0.75),
+  svgPattern(12, 'fineGear', 'Fine Gear', ['gear'], 20, 0.77),
+  svgPattern(13, 'sunburst', 'Sunburst', ['spikes'], 20, 0.77),
+  svgPattern(14, 'sunburstDashed', 'Sunburst Dashed', ['spikes', 'dashed'], 4, 0.67),
+  svgPattern(15, 'sixPorthole', 'Six Porthole', ['blocks', 'dots', 'holes'], 6, 0.63),
+  svgPattern(16, 'classicDotted', 'Classic Dotted', ['classic', 'blocks', 'dots', 'dashed'], 3, 0.65),
+  svgPattern(17, 'starFrame', 'Star Frame', ['spikes', 'minimal'], 8, 0.8),
+  svgPattern(18, 'dashedRim', 'Dashed Rim', ['dashed', 'minimal'], 8, 0.9),
+  svgPattern(19, 'doubleDashedRim', 'Double Dashed Rim', ['dashed', 'rings'], 8, 0.73),
+  svgPattern(20, 'solidDashedRim', 'Solid Dashed Rim', ['dashed', 'minimal', 'solid'], 8, 0.8),
+  proceduralPattern('radialNotches', 'Radial Notches', ['notched'], 12),
+  proceduralPattern('wedgeSegments', 'Wedge Segments', ['blocks'], 6),
+  proceduralPattern('concentricRings', 'Concentric Rings', ['rings', 'minimal'], 0),
+  proceduralPattern('gearTeeth', 'Gear Teeth', ['gear'], 24),
+  proceduralPattern('dashedBand', 'Dashed Band', ['dashed'], 16),
+];
+
+export const DEFAULT_PATTERN = patternCatalog[0].id;
+
+const patternsById = new Map<string, PatternInfo>(
+  patternCatalog.flatMap((pattern) => [pattern.id, ...pattern.aliases].map((id) => [id, pattern] as const))
+);
+
+/**
+ * Looks up a pattern by its id or one of its aliases.
+ */
+export function findPattern(id: string): PatternInfo | undefined {
+  return patternsById.get(id);
+}
+
+/**
+ * Looks up a pattern by its id or one of its aliases, throwing for unknown ids.
+ */
+export function resolvePattern(id: string): PatternInfo {
+  const pattern = findPattern(id);
+  if (!pattern) {
+    throw new Error(`Unknown pattern: ${id}. Available patterns: ${patternCatalog.map((p) => p.id).join(', ')}`);
+  }
+  return pattern;
+}
+
+/**
+ * SVG markup of a pattern; procedural patterns are drawn with their default params.
+ */
+export function patternSvg(pattern: PatternInfo): string {
+  return pattern.kind === 'svg' ? embeddedSvgs[pattern.svgKey] : proceduralPatternPreviewSvg(pattern.generator);
+}
+
+/**
+ * SVG data URL of a pattern, for button grid display.
+ */
+export function patternDataUrl(pattern: PatternInfo): string {
+  const svg = patternSvg(pattern);
+  return `data:image/svg+xml;base64,${typeof btoa !== 'undefined' ? btoa(svg) : Buffer.from(svg).toString('base64')}`;
+}
@@ -0,0 +1,95 @@
+/**
+ * Build plate layout for printing many Makerchips at once.
+ */
+
+export type PlatePacking = 'grid' | 'hex';
+
+export type PlateOptions = {
+  /** Build plate size along X (mm) */
+  bedWidth: number;
+  /** Build plate size along Y (mm) */
+  bedDepth: number;
+  /** Minimum gap between chips (mm) */
+  gap: number;
+  packing: PlatePacking;
+};
+
+export const defaultPlateOptions: PlateOptions = {
+  bedWidth: 256,
+  bedDepth: 256,
+  gap: 5,
+  packing: 'grid',
+};
+
+export type PlateLayout = {
+  /** Center of each chip on the plate, with the plate's corner at the origin */
+  positions: [number, number][];
+  /** Number of chips that lie (partly) outside the plate */
+  overflow: number;
+  warnings: string[];
+};
+
+/**
+ * Lays out `count` chips with the given XY footprint on the build plate.
+ * Grid packing uses rectangular cells; hex packing staggers every other row,
+ * which fits more round chips. Hex packing spaces chips by the circle around
+ * the footprint's center that holds each chip, `enclosingDiameter`; without
+ * it that is the footprint's diagonal, which holds any shape. Chips that do
+ * not fit continue past the far edge of the plate so they never overlap.
+ */
+export function layoutPlate(
+  count: number,
+  footprint: [number, number],
+  options: PlateOptions,
+  enclosingDiameter: number = Math.hypot(footprint[0], footprint[1])
+): PlateLayout {
+  const { bedWidth, bedDepth, gap, packing } = options;
+  const warnings: string[] = [];
+
+  let [width, depth] = footprint;
+  let pitchX = width + gap;
+  let pitchY = depth + gap;
+  let rowShift = 0;
+
+  if (packing === 'hex') {
+    // Treat chips as circles that hold them, with centers on a triangular lattice
+    width = depth = Math.max(enclosingDiameter, width, depth);
+    pitchX = width + gap;
+    pitchY = (pitchX * Math.sqrt(3)) / 2;
+    rowShift = pitchX / 2;
+  }
+
+  if (width > bedWidth || depth > bedDepth) {
+    warnings.push(`A chip (${width.toFixed(1)} × ${depth.toFixed(1)} mm) is larger than the ${bedWidth} × ${bedDepth} mm bed`);
+  }
+
+  const shiftFor = (row: number) => (row % 2 === 1 ? rowShift : 0);
+  const columnsFor = (row: number) =>
+    Math.max(1, Math.floor((bedWidth - width - shiftFor(row)) / pitchX) + 1);
+  const rowsOnBed = Math.max(0, Math.floor((bedDepth - depth) / pitchY) + 1);
+
+  // Fill rows in order
+  const cells: [number, number][] = [];
+  for (let row = 0; cells.length < count; row++) {
+    for (let column = 0; column < columnsFor(row) && cells.length < count; column++) {
+      cells.push([column, row]);
+    }
+  }
+
+  // Cell centers relative to the first cell
+  const offsets = cells.map(([column, row]) => [column * pitchX + shiftFor(row), row * pitchY] as [number, number]);
+  const blockWidth = Math.max(...offsets.map(([x]) => x)) + width;
+  const blockDepth = Math.max(...offsets.map(([, y]) => y)) + depth;
+
+  // Center the block on the plate, or start at the near edge when it overflows
+  const originX = (bedWidth - blockWidth) / 2 + width / 2;
+  const originY = blockDepth <= bedDepth ? (bedDepth - blockDepth) / 2 + depth / 2 : depth / 2;
+  const positions = offsets.map(([x, y]) => [originX + x, originY + y] as [number, number]);
+
+  const overflow = cells.filter(([, row]) => row >= rowsOnBed).length;
+  if (overflow > 0) {
+    warnings.push(`${overflow} of ${count} chips do not fit on the ${bedWidth} × ${bedDepth} mm bed`);
+  }
+
+  return { positions, overflow, warnings };
+}
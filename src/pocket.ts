@@ -0,0 +1,122 @@
+/**
+ * Insert pockets for magnets, NFC tags and coin cells.
+ */
+
+import { CrossSection, Manifold } from '@cadit-app/manifold-3d/manifoldCAD';
+import { DEFAULT_TOLERANCE, circleSegments } from './quality';
+
+export type PocketType =
+  | 'none'
+  | 'magnet6x2'
+  | 'magnet6x3'
+  | 'magnet8x3'
+  | 'magnet10x2'
+  | 'magnet10x3'
+  | 'magnet12x3'
+  | 'ntag213'
+  | 'ntag215'
+  | 'cr2032'
+  | 'custom';
+
+export type PocketFace = 'top' | 'bottom';
+
+export type PocketParams = {
+  pocketType: PocketType;
+  pocketFace: PocketFace;
+  /** Insert diameter for the custom pocket (mm) */
+  pocketDiameter: number;
+  /** Insert thickness for the custom pocket (mm) */
+  pocketDepth: number;
+  /** Extra diameter added to the insert for a slip fit (mm) */
+  pocketClearance: number;
+  /** Material kept between the pocket and the opposite face, or above it when printed in place (mm) */
+  pocketWall: number;
+  /** Close the pocket with a ceiling and pause the print to drop the insert in */
+  pocketPrintInPlace: boolean;
+};
+
+/**
+ * Insert sizes as [diameter, thickness] in mm.
+ */
+export const pocketPresets: Record<Exclude<PocketType, 'none' | 'custom'>, [number, number]> = {
+  magnet6x2: [6, 2],
+  magnet6x3: [6, 3],
+  magnet8x3: [8, 3],
+  magnet10x2: [10, 2],
+  magnet10x3: [10, 3],
+  magnet12x3: [12, 3],
+  ntag213: [25, 0.5],
+  ntag215: [25, 0.5],
+  cr2032: [20, 3.2],
+};
+
+const insertNames: Record<Exclude<PocketType, 'none'>, string> = {
+  magnet6x2: '6x2mm magnet',
+  magnet6x3: '6x3mm magnet',
+  magnet8x3: '8x3mm magnet',
+  magnet10x2: '10x2mm magnet',
+  magnet10x3: '10x3mm magnet',
+  magnet12x3: '12x3mm magnet',
+  ntag213: 'NTAG213 tag',
+  ntag215: 'NTAG215 tag',
+  cr2032: 'CR2032 cell',
+  custom: 'insert',
+};
+
+export type Pocket = {
+  /** Void to subtract from the chip parts */
+  shape: Manifold;
+  /** Z height to pause at for print-in-place pockets */
+  pauseHeight?: number;
+  /** Human-readable name of the insert */
+  insertName: string;
+};
+
+/**
+ * Generates the pocket void for a chip of the given height, or `undefined` when disabled.
+ */
+export function generatePocket({
+  pocketType,
+  pocketFace,
+  pocketDiameter,
+  pocketDepth,
+  pocketClearance,
+  pocketWall,
+  pocketPrintInPlace,
+  height,
+  tolerance = DEFAULT_TOLERANCE,
+}: PocketParams & { height: number; tolerance?: number }): Pocket | undefined {
+  if (!pocketType || pocketType === 'none') {
+    return undefined;
+  }
+
+  const [diameter, depth] = pocketType === 'custom' ? [pocketDiameter, pocketDepth] : pocketPresets[pocketType];
+
+  // Print-in-place pockets need a wall on both sides
+  const requiredHeight = depth + pocketWall * (pocketPrintInPlace ? 2 : 1);
+  if (requiredHeight > height) {
+    throw new Error(
+      `A ${depth}mm deep pocket with ${pocketWall}mm walls needs a chip at least ${requiredHeight}mm high, but it is ${height}mm`
+    );
+  }
+
+  const pocketRadius = (diameter + pocketClearance) / 2;
+  const circle = CrossSection.circle(pocketRadius, circleSegments(pocketRadius, tolerance));
+
+  if (pocketPrintInPlace) {
+    const floor = pocketFace === 'bottom' ? pocketWall : height - pocketWall - depth;
+    return {
+      shape: circle.extrude(depth).translate([0, 0, floor]),
+      pauseHeight: floor + depth,
+      insertName: insertNames[pocketType],
+    };
+  }
+
+  // Open pockets overshoot the face slightly so the cut is clean
+  const overshoot = 0.01;
+  const floor = pocketFace === 'bottom' ? -overshoot : height - depth;
+  return {
+    shape: circle.extrude(depth + overshoot).translate([0, 0, floor]),
+    insertName: insertNames[pocketType],
+  };
+}
@@ -0,0 +1,118 @@
+/**
+ * Versioned JSON presets: complete Makerchip params, including the embedded
+ * QR code and image settings, saved so a chip can be regenerated exactly.
+ */
+
+import type { MakerChipParams } from './params';
+
+export const PRESET_FORMAT = 'makerchip-preset';
+
+/**
+ * Current preset version. Bump it, and add a migration from the previous
+ * version, whenever a param is renamed or changes meaning.
+ */
+export const PRESET_VERSION = 2;
+
+export type MakerChipPreset = {
+  format: typeof PRESET_FORMAT;
+  version: number;
+  params: Partial<MakerChipParams>;
+};
+
+type PresetData = { version: number; params: Record<string, unknown> };
+
+// Each migration upgrades a preset from the version it is keyed by to the next
+const migrations: Record<number, (preset: PresetData) => PresetData> = {
+  // Version 1 presets are a bare params object, as exported from the param panel
+  1: (preset) => ({ version: 2, params: preset.params }),
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Wraps params as a preset of the current version.
+ */
+export function createPreset(params: MakerChipParams): MakerChipPreset {
+  return { format: PRESET_FORMAT, version: PRESET_VERSION, params: structuredClone(params) };
+}
+
+/**
+ * Formats params as preset JSON.
+ */
+export function serializePreset(params: MakerChipParams): string {
+  return `${JSON.stringify(createPreset(params), null, 2)}\n`;
+}
+
+/**
+ * Upgrades parsed preset JSON of any earlier version to the current version.
+ */
+export function migratePreset(data: unknown): MakerChipPreset {
+  if (!isObject(data)) {
+    throw new Error('Preset must be a JSON object');
+  }
+
+  let preset: PresetData;
+  if (data.format === PRESET_FORMAT) {
+    if (!Number.isInteger(data.version) || !isObject(data.params)) {
+      throw new Error('Preset needs a whole number version and a params object');
+    }
+    preset = { version: data.version as number, params: data.params };
+  } else {
+    preset = { version: 1, params: data };
+  }
+
+  if (preset.version > PRESET_VERSION) {
+    throw new Error(`Preset version ${preset.version} is newer than this version of Makerchip supports (${PRESET_VERSION})`);
+  }
+  while (preset.version < PRESET_VERSION) {
+    const migrate = migrations[preset.version];
+    if (!migrate) {
+      throw new Error(`Preset version ${preset.version} is not supported`);
+    }
+    preset = migrate(preset);
+  }
+
+  return { format: PRESET_FORMAT, version: preset.version, params: preset.params as Partial<MakerChipParams> };
+}
+
+/**
+ * Parses preset JSON and migrates it to the current version.
+ */
+export function parsePreset(content: string): MakerChipPreset {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Preset is not valid JSON: ${(error as Error).message}`);
+  }
+  return migratePreset(data);
+}
+
+/**
+ * Returns a copy of `base` with the preset's params applied. Nested settings are
+ * merged, so a preset only needs the params it changes. Params that `base` does
+ * not have are returned as `unknownKeys`.
+ */
+export function applyPreset<T extends object>(
+  base: T,
+  preset: MakerChipPreset
+): { params: T; unknownKeys: string[] } {
+  const params = structuredClone(base);
+  const unknownKeys: string[] = [];
+
+  const merge = (target: Record<string, unknown>, source: Record<string, unknown>, prefix: string) => {
+    for (const [key, value] of Object.entries(source)) {
+      if (!(key in target)) {
+        unknownKeys.push(`${prefix}${key}`);
+      } else if (isObject(target[key]) && isObject(value)) {
+        merge(target[key] as Record<string, unknown>, value, `${prefix}${key}.`);
+      } else {
+        target[key] = structuredClone(value);
+      }
+    }
+  };
+  merge(params as Record<string, unknown>, preset.params as Record<string, unknown>, '');
+
+  return { params, unknownKeys };
+}
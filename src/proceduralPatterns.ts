@@ -0,0 +1,203 @@
+/**
+ * Procedural marking patterns for Makerchip.
+ * Unlike the SVG library these are built in code from numeric params,
+ * directly in millimeters around the chip center.
+ */
+
+import { CrossSection } from '@cadit-app/manifold-3d/manifoldCAD';
+import { DEFAULT_TOLERANCE, arcSegments } from './quality';
+
+type Point = [number, number];
+type Polygon = Point[];
+
+export const proceduralPatternNames = [
+  'radialNotches',
+  'wedgeSegments',
+  'concentricRings',
+  'gearTeeth',
+  'dashedBand',
+] as const;
+
+export type ProceduralPatternName = (typeof proceduralPatternNames)[number];
+
+export type ProceduralPatternParams = {
+  /** Width of the pattern band, measured inwards from the chip edge (mm) */
+  patternBandWidth: number;
+  notchCount: number;
+  /** Angular width of each notch (degrees) */
+  notchWidth: number;
+  /** Radial depth of each notch (mm) */
+  notchDepth: number;
+  wedgeCount: number;
+  /** Angular width of each wedge (degrees) */
+  wedgeAngle: number;
+  ringCount: number;
+  /** Radial width of each ring (mm) */
+  ringWidth: number;
+  /** Radial gap between rings (mm) */
+  ringGap: number;
+  gearTeethCount: number;
+  /** Radial height of the gear teeth (mm) */
+  gearToothDepth: number;
+  dashCount: number;
+  /** Share of each dash period that is filled (%) */
+  dashLength: number;
+  /** Radial width of the dashes (mm) */
+  dashWidth: number;
+  /** Distance of the dashes from the chip edge (mm) */
+  dashInset: number;
+};
+
+export const defaultProceduralPatternParams: ProceduralPatternParams = {
+  patternBandWidth: 3,
+  notchCount: 12,
+  notchWidth: 8,
+  notchDepth: 1.5,
+  wedgeCount: 6,
+  wedgeAngle: 30,
+  ringCount: 2,
+  ringWidth: 1,
+  ringGap: 1,
+  gearTeethCount: 24,
+  gearToothDepth: 1.5,
+  dashCount: 16,
+  dashLength: 60,
+  dashWidth: 1.5,
+  dashInset: 0.75,
+};
+
+export function isProceduralPattern(name: string): name is ProceduralPatternName {
+  return (proceduralPatternNames as readonly string[]).includes(name);
+}
+
+function polar(r: number, angle: number): Point {
+  return [r * Math.cos(angle), r * Math.sin(angle)];
+}
+
+/**
+ * Samples an arc from a0 to a1 (radians), including both end points, within
+ * the chord `tolerance`.
+ */
+function arc(r: number, a0: number, a1: number, tolerance: number): Point[] {
+  const segments = arcSegments(r, Math.abs(a1 - a0), tolerance);
+  const points: Point[] = [];
+  for (let i = 0; i <= segments; i++) {
+    points.push(polar(r, a0 + ((a1 - a0) * i) / segments));
+  }
+  return points;
+}
+
+function circle(r: number, tolerance: number): Polygon {
+  return arc(r, 0, 2 * Math.PI, tolerance).slice(0, -1);
+}
+
+function annularSector(innerRadius: number, outerRadius: number, a0: number, a1: number, tolerance: number): Polygon {
+  return [...arc(outerRadius, a0, a1, tolerance), ...arc(innerRadius, a1, a0, tolerance)];
+}
+
+const degToRad = (deg: number) => (deg * Math.PI) / 180;
+
+/**
+ * Builds the even-odd polygons for a procedural pattern with its outer edge at `radius`,
+ * with arcs within the chord `tolerance`.
+ */
+export function proceduralPatternPolygons(
+  name: ProceduralPatternName,
+  radius: number,
+  params: ProceduralPatternParams,
+  tolerance: number = DEFAULT_TOLERANCE
+): Polygon[] {
+  const bandWidth = Math.min(params.patternBandWidth, radius);
+  const innerRadius = radius - bandWidth;
+
+  switch (name) {
+    case 'radialNotches': {
+      // Ring with rectangular notches cut into its outer edge
+      const count = Math.max(1, Math.round(params.notchCount));
+      const period = (2 * Math.PI) / count;
+      const halfNotch = Math.min(degToRad(params.notchWidth), period * 0.95) / 2;
+      const notchRadius = radius - Math.min(params.notchDepth, bandWidth * 0.9);
+      const outline: Polygon = [];
+      for (let i = 0; i < count; i++) {
+        const center = i * period;
+        outline.push(...arc(notchRadius, center - halfNotch, center + halfNotch, tolerance));
+        outline.push(...arc(radius, center + halfNotch, center + period - halfNotch, tolerance));
+      }
+      return [outline, circle(innerRadius, tolerance)];
+    }
+    case 'wedgeSegments': {
+      // Alternating filled sectors of the band
+      const count = Math.max(1, Math.round(params.wedgeCount));
+      const period = (2 * Math.PI) / count;
+      const halfWedge = Math.min(degToRad(params.wedgeAngle), period * 0.95) / 2;
+      return Array.from({ length: count }, (_, i) =>
+        annularSector(innerRadius, radius, i * period - halfWedge, i * period + halfWedge, tolerance)
+      );
+    }
+    case 'concentricRings': {
+      // Rings stepping inwards from the chip edge
+      const polygons: Polygon[] = [];
+      for (let i = 0; i < Math.round(params.ringCount); i++) {
+        const outer = radius - i * (params.ringWidth + params.ringGap);
+        const inner = outer - params.ringWidth;
+        if (inner <= 0) {
+          break;
+        }
+        polygons.push(circle(outer, tolerance), circle(inner, tolerance));
+      }
+      return polygons;
+    }
+    case 'gearTeeth': {
+      // Trapezoidal teeth standing on a ring, 40% root / 10% flank / 40% tip / 10% flank
+      const count = Math.max(3, Math.round(params.gearTeethCount));
+      const period = (2 * Math.PI) / count;
+      const rootRadius = radius - Math.min(params.gearToothDepth, bandWidth * 0.9);
+      const outline: Polygon = [];
+      for (let i = 0; i < count; i++) {
+        const start = i * period;
+        outline.push(...arc(rootRadius, start, start + 0.4 * period, tolerance));
+        outline.push(...arc(radius, start + 0.5 * period, start + 0.9 * period, tolerance));
+      }
+      return [outline, circle(innerRadius, tolerance)];
+    }
+    case 'dashedBand': {
+      // Evenly spaced dashes on a thin band inset from the edge
+      const count = Math.max(1, Math.round(params.dashCount));
+      const period = (2 * Math.PI) / count;
+      const halfDash = (period * Math.min(Math.max(params.dashLength, 1), 95)) / 100 / 2;
+      const outer = radius - params.dashInset;
+      const inner = Math.max(outer - params.dashWidth, 0);
+      return Array.from({ length: count }, (_, i) =>
+        annularSector(inner, outer, i * period - halfDash, i * period + halfDash, tolerance)
+      );
+    }
+  }
+}
+
+/**
+ * Generates the cross-section of a procedural pattern with its outer edge at `radius`.
+ */
+export function generateProceduralPattern(
+  name: ProceduralPatternName,
+  radius: number,
+  params: ProceduralPatternParams,
+  tolerance: number = DEFAULT_TOLERANCE
+): CrossSection {
+  return new CrossSection(proceduralPatternPolygons(name, radius, params, tolerance), 'EvenOdd');
+}
+
+/**
+ * Renders a procedural pattern with default params as SVG markup for previews.
+ */
+export function proceduralPatternPreviewSvg(name: ProceduralPatternName): string {
+  const radius = 20;
+  const polygons = proceduralPatternPolygons(name, radius, defaultProceduralPatternParams);
+  // Flip Y back to SVG's Y-down convention
+  const d = polygons
+    .map((polygon) => 'M' + polygon.map(([x, y]) => `${x.toFixed(3)} ${(-y).toFixed(3)}`).join('L') + 'Z')
+    .join('');
+  return `<svg width="${radius * 2}mm" height="${radius * 2}mm" version="1.1" viewBox="${-radius} ${-radius} ${radius * 2} ${radius * 2}" xmlns="http://www.w3.org/2000/svg">
+ <path d="${d}" fill-rule="evenodd"/>
+</svg>
+`;
+}
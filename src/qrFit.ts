@@ -0,0 +1,103 @@
+/**
+ * QR code sizing for the center inset: auto-fit to the center circle, and
+ * module size checks against the nozzle so the code prints and scans.
+ */
+
+import type { MakerChipParams } from './params';
+
+export type QrErrorCorrection = 'L' | 'M' | 'Q' | 'H';
+
+export type QrFitParams = {
+  /** Size the QR code to the largest square inside the center circle */
+  qrAutoFit: boolean;
+  /** Space kept between the QR corners and the center circle edge (mm) */
+  qrMargin: number;
+  /** Error correction level, or 'auto' for the highest that keeps modules printable */
+  qrErrorCorrection: QrErrorCorrection | 'auto';
+  /** Nozzle diameter the chip is printed with (mm) */
+  nozzleDiameter: number;
+};
+
+export const defaultQrFitParams: QrFitParams = {
+  qrAutoFit: false,
+  qrMargin: 1,
+  qrErrorCorrection: 'auto',
+  nozzleDiameter: 0.4,
+};
+
+// Smallest module that prints cleanly and scans reliably, in nozzle widths
+export const MIN_MODULE_NOZZLES = 2;
+
+// Byte-mode capacity of QR versions 1-10, per error correction level.
+// Larger versions have too many modules to print on a chip.
+const byteCapacity: Record<QrErrorCorrection, number[]> = {
+  L: [17, 32, 53, 78, 106, 134, 154, 192, 230, 271],
+  M: [14, 26, 42, 62, 84, 106, 122, 152, 180, 213],
+  Q: [11, 20, 32, 46, 60, 74, 86, 108, 130, 151],
+  H: [7, 14, 24, 34, 44, 58, 64, 84, 98, 119],
+};
+
+// From most to least redundancy
+const errorCorrectionLevels: QrErrorCorrection[] = ['H', 'Q', 'M', 'L'];
+
+export type QrFit = {
+  /** QR code size to generate (mm) */
+  size: number;
+  errorCorrection: QrErrorCorrection;
+  /** Modules along one side, or undefined when the content is too long for a chip */
+  modules?: number;
+  /** Width of one module (mm) */
+  moduleSize?: number;
+  /** Smallest module width that prints reliably (mm) */
+  minModuleSize: number;
+};
+
+/**
+ * Modules along one side of the smallest QR code that holds `text`, assuming
+ * byte mode. Returns undefined when it needs a version above 10.
+ */
+export function qrModuleCount(text: string, errorCorrection: QrErrorCorrection): number | undefined {
+  const bytes = new TextEncoder().encode(text).length;
+  const version = byteCapacity[errorCorrection].findIndex((capacity) => bytes <= capacity) + 1;
+  return version > 0 ? 17 + 4 * version : undefined;
+}
+
+/**
+ * Side of the largest square that fits in the center circle with the margin.
+ */
+export function maxQrSize(centerCircleRadius: number, qrMargin: number): number {
+  return Math.max(0, (centerCircleRadius - qrMargin) * Math.SQRT2);
+}
+
+/**
+ * Works out the QR code size and error correction level for the chip.
+ */
+export function fitQrCode(params: MakerChipParams): QrFit {
+  const text = params.qrCodeSettings.params.text ?? '';
+  // An off-center QR code has to fit in what is left of the circle around it
+  const size = params.qrAutoFit
+    ? maxQrSize(params.centerCircleRadius - Math.hypot(params.qrPositionX, params.qrPositionY), params.qrMargin)
+    : params.qrCodeSettings.params.size;
+  const minModuleSize = MIN_MODULE_NOZZLES * params.nozzleDiameter;
+
+  const fitFor = (errorCorrection: QrErrorCorrection): QrFit => {
+    const modules = qrModuleCount(text, errorCorrection);
+    return { size, errorCorrection, modules, moduleSize: modules && size / modules, minModuleSize };
+  };
+
+  if (params.qrErrorCorrection !== 'auto') {
+    return fitFor(params.qrErrorCorrection);
+  }
+
+  // Most redundancy whose modules still print; otherwise the fewest, largest modules
+  const fits = errorCorrectionLevels.map(fitFor);
+  return fits.find((fit) => fit.moduleSize !== undefined && fit.moduleSize >= minModuleSize) ?? fits[fits.length - 1];
+}
+
+/**
+ * The QR code maker params with the fitted size and error correction applied.
+ */
+export function fittedQrParams(params: MakerChipParams) {
+  const { size, errorCorrection } = fitQrCode(params);
+  return { ...params.qrCodeSettings.params, size, errorCorrectionLevel: errorCorrection };
+}
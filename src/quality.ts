@@ -0,0 +1,76 @@
+/**
+ * Output quality for Makerchip: a chord tolerance that sets how finely curves
+ * are divided, so previews stay fast and large chips stay smooth.
+ */
+
+export type QualityPreset = 'draft' | 'normal' | 'fine' | 'custom';
+
+export type QualityParams = {
+  /** Preset tolerance, or custom for `qualityTolerance` */
+  quality: QualityPreset;
+  /** Largest gap between a curve and its straight segments, for the custom quality (mm) */
+  qualityTolerance: number;
+};
+
+/**
+ * Chord tolerance of each preset (mm).
+ */
+export const qualityTolerances: Record<Exclude<QualityPreset, 'custom'>, number> = {
+  draft: 0.05,
+  normal: 0.003,
+  fine: 0.001,
+};
+
+export const DEFAULT_TOLERANCE = qualityTolerances.normal;
+
+export const defaultQualityParams: QualityParams = {
+  quality: 'normal',
+  qualityTolerance: DEFAULT_TOLERANCE,
+};
+
+// Keeps tiny tolerances on large chips from producing runaway meshes
+const MAX_CIRCLE_SEGMENTS = 1024;
+
+/**
+ * Chord tolerance the params select (mm).
+ */
+export function qualityTolerance({ quality, qualityTolerance }: QualityParams): number {
+  return quality === 'custom' ? qualityTolerance : qualityTolerances[quality] ?? DEFAULT_TOLERANCE;
+}
+
+/**
+ * Segments for an arc of `angle` radians and the given radius, so no segment
+ * strays more than `tolerance` from the arc.
+ */
+export function arcSegments(radius: number, angle: number, tolerance: number): number {
+  if (!(radius > tolerance)) {
+    return 2;
+  }
+  const step = 2 * Math.acos(1 - tolerance / radius);
+  const maxSegments = Math.ceil((MAX_CIRCLE_SEGMENTS * angle) / (2 * Math.PI));
+  return Math.max(Math.min(Math.ceil(angle / step), maxSegments), 2);
+}
+
+/**
+ * Segments for a full circle of the given radius, at least 8.
+ */
+export function circleSegments(radius: number, tolerance: number): number {
+  return Math.max(arcSegments(radius, 2 * Math.PI, tolerance), 8);
+}
+
+/**
+ * Parses a quality spec: a preset name (draft, normal, fine), or a custom
+ * chord tolerance in mm.
+ */
+export function parseQuality(spec: string): QualityParams {
+  if (spec in qualityTolerances) {
+    const quality = spec as keyof typeof qualityTolerances;
+    return { quality, qualityTolerance: qualityTolerances[quality] };
+  }
+
+  const tolerance = Number(spec);
+  if (!(tolerance > 0)) {
+    throw new Error(`Invalid quality: ${spec} (expected ${Object.keys(qualityTolerances).join(', ')} or a tolerance in mm)`);
+  }
+  return { quality: 'custom', qualityTolerance: tolerance };
+}
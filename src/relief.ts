@@ -0,0 +1,73 @@
+/**
+ * Relief heights for the chip layers: each layer can be raised above or
+ * recessed into the face it sits on, with its own thickness.
+ */
+
+import type { Manifold } from '@cadit-app/manifold-3d/manifoldCAD';
+
+export type ReliefParams = {
+  /** Height of the marking's top above the chip's top face; negative to recess (mm) */
+  markingOffset: number;
+  /** Thickness of the marking below its top; 0 reaches the bottom face (mm) */
+  markingThickness: number;
+  /** Height of the center disk's top above the chip's top face; negative to recess (mm) */
+  centerOffset: number;
+  /** Thickness of the center disk below its top; 0 reaches the bottom face (mm) */
+  centerThickness: number;
+  /** How far the QR code's outer surface stands out from its face; negative to recess (mm) */
+  qrOffset: number;
+  /** Thickness of the QR code; 0 uses the QR code's own height (mm) */
+  qrThickness: number;
+  /** How far the image's outer surface stands out from its face; negative to recess (mm) */
+  imageOffset: number;
+  /** Thickness of the image; 0 uses the image's own height (mm) */
+  imageThickness: number;
+};
+
+export const defaultReliefParams: ReliefParams = {
+  markingOffset: 0,
+  markingThickness: 0,
+  centerOffset: 0,
+  centerThickness: 0,
+  qrOffset: 0,
+  qrThickness: 0,
+  imageOffset: 0,
+  imageThickness: 0,
+};
+
+/**
+ * Thickness of a layer with its top at `top`, so that it is at least
+ * `thickness` thick and still reaches down to the `support` surface below it,
+ * rather than floating above it.
+ */
+export function supportedThickness(top: number, thickness: number, support: number): number {
+  return Math.max(thickness, top - support);
+}
+
+/**
+ * Cuts a layer that reaches the bottom face down to `thickness` below its top,
+ * keeping it on its `support` surface. A thickness of 0 keeps the full layer.
+ */
+export function trimLayer(shape: Manifold, top: number, thickness: number, support: number): Manifold {
+  if (!(thickness > 0)) {
+    return shape;
+  }
+  const bottom = top - supportedThickness(top, thickness, support);
+  return bottom > 0 ? shape.trimByPlane([0, 0, 1], bottom) : shape;
+}
+
+/**
+ * Cutter that clears the space above `top` within the layer's footprint, so a
+ * recessed layer is not covered by the parts around it.
+ */
+export function recessAbove(shape: Manifold, top: number, clearance: number): Manifold {
+  return shape.project().extrude(clearance).translate([0, 0, top]);
+}
+
+/**
+ * Cutter that clears the space below `bottom` within the layer's footprint,
+ * for layers recessed into the bottom face.
+ */
+export function recessBelow(shape: Manifold, bottom: number, clearance: number): Manifold {
+  return shape.project().extrude(clearance).translate([0, 0, bottom - clearance]);
+}
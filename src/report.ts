@@ -0,0 +1,222 @@
+/**
+ * Geometry report for Makerchip: volume, area and size of each printed part,
+ * with the filament it takes and what that costs, without slicing.
+ */
+
+import type { Manifold } from '@cadit-app/manifold-3d/manifoldCAD';
+import { assembleMakerchipParts } from './assembly';
+import type { MakerchipPart, PartRole } from './assembly';
+import { inlayParts } from './inlay';
+import { partName, partRoles } from './materials';
+import type { MakerChipParams } from './params';
+
+export type Filament = {
+  /** Material name, e.g. PLA */
+  name: string;
+  /** Density (g/cm³) */
+  density: number;
+  /** Filament diameter (mm) */
+  diameter: number;
+  /** Price of a kilogram of filament, in the report currency */
+  costPerKg: number;
+};
+
+const filament = (name: string, density: number): Filament => ({ name, density, diameter: 1.75, costPerKg: 20 });
+
+/**
+ * Common filaments, by lower-case name.
+ */
+export const filamentPresets: Record<string, Filament> = {
+  pla: filament('PLA', 1.24),
+  petg: filament('PETG', 1.27),
+  abs: filament('ABS', 1.04),
+  asa: filament('ASA', 1.07),
+  tpu: filament('TPU', 1.21),
+};
+
+export type ReportOptions = {
+  /** Filament each part is printed in; PLA by default */
+  filaments?: Partial<Record<PartRole, Filament>>;
+  /** Currency the costs are in, only used for display */
+  currency?: string;
+};
+
+export type BoundingBox = {
+  min: [number, number, number];
+  max: [number, number, number];
+  size: [number, number, number];
+};
+
+export type FilamentUsage = {
+  material: string;
+  grams: number;
+  meters: number;
+  cost: number;
+};
+
+export type PartReport = {
+  role: PartRole;
+  name: string;
+  /** mm³ */
+  volume: number;
+  /** mm² */
+  surfaceArea: number;
+  boundingBox: BoundingBox;
+  triangles: number;
+  filament: FilamentUsage;
+};
+
+export type GeometryReport = {
+  parts: PartReport[];
+  total: {
+    volume: number;
+    surfaceArea: number;
+    triangles: number;
+    grams: number;
+    meters: number;
+    cost: number;
+  };
+  currency: string;
+};
+
+function boundingBox(shape: Manifold): BoundingBox {
+  const { min, max } = shape.boundingBox();
+  return {
+    min: [min[0], min[1], min[2]],
+    max: [max[0], max[1], max[2]],
+    size: [max[0] - min[0], max[1] - min[1], max[2] - min[2]],
+  };
+}
+
+/**
+ * Filament needed to print a volume (mm³) of the given filament.
+ */
+export function filamentUsage(volume: number, { name, density, diameter, costPerKg }: Filament): FilamentUsage {
+  const grams = (volume / 1000) * density;
+  const crossSection = Math.PI * (diameter / 2) ** 2;
+  return {
+    material: name,
+    grams,
+    meters: volume / crossSection / 1000,
+    cost: (grams / 1000) * costPerKg,
+  };
+}
+
+/**
+ * Reports on parts as they are printed. Overlapping parts are made disjoint
+ * first, so each overlap is counted once, for the part that shows.
+ */
+export function reportParts(parts: MakerchipPart[], params: MakerChipParams, options: ReportOptions = {}): GeometryReport {
+  const printed = params.inlay ? parts : inlayParts(parts, { ...params, inlayDepth: 0 });
+
+  const reports = printed.map(({ role, shape, layer }): PartReport => {
+    const volume = shape.volume();
+    return {
+      role,
+      name: partName(role, undefined, layer),
+      volume,
+      surfaceArea: shape.surfaceArea(),
+      boundingBox: boundingBox(shape),
+      triangles: shape.numTri(),
+      filament: filamentUsage(volume, options.filaments?.[role] ?? filamentPresets.pla),
+    };
+  });
+
+  const sum = (value: (part: PartReport) => number) => reports.reduce((total, part) => total + value(part), 0);
+  return {
+    parts: reports,
+    total: {
+      volume: sum((part) => part.volume),
+      surfaceArea: sum((part) => part.surfaceArea),
+      triangles: sum((part) => part.triangles),
+      grams: sum((part) => part.filament.grams),
+      meters: sum((part) => part.filament.meters),
+      cost: sum((part) => part.filament.cost),
+    },
+    currency: options.currency ?? '',
+  };
+}
+
+/**
+ * Reports on each part of the printable Makerchip.
+ */
+export async function generateReport(params: MakerChipParams, options: ReportOptions = {}): Promise<GeometryReport> {
+  const parts = await assembleMakerchipParts(params, 'printable');
+  return reportParts(parts, params, options);
+}
+
+/**
+ * Formats a report as a plain-text table, one row per part.
+ */
+export function formatReport(report: GeometryReport): string {
+  const cost = (value: number) => `${report.currency}${value.toFixed(2)}`;
+  const header = ['Part', 'Material', 'Volume cm³', 'Area cm²', 'Size mm', 'Triangles', 'Grams', 'Meters', 'Cost'];
+  const rows = report.parts.map((part) => [
+    part.name,
+    part.filament.material,
+    (part.volume / 1000).toFixed(2),
+    (part.surfaceArea / 100).toFixed(1),
+    part.boundingBox.size.map((size) => size.toFixed(1)).join(' × '),
+    String(part.triangles),
+    part.filament.grams.toFixed(2),
+    part.filament.meters.toFixed(2),
+    cost(part.filament.cost),
+  ]);
+  const { total } = report;
+  rows.push([
+    'Total',
+    '',
+    (total.volume / 1000).toFixed(2),
+    (total.surfaceArea / 100).toFixed(1),
+    '',
+    String(total.triangles),
+    total.grams.toFixed(2),
+    total.meters.toFixed(2),
+    cost(total.cost),
+  ]);
+
+  // Text columns are left-aligned, numbers right-aligned
+  const widths = header.map((title, i) => Math.max(title.length, ...rows.map((row) => row[i].length)));
+  const line = (cells: string[]) =>
+    cells.map((cell, i) => (i < 2 ? cell.padEnd(widths[i]) : cell.padStart(widths[i]))).join('  ').trimEnd();
+  const separator = widths.map((width) => '-'.repeat(width)).join('  ');
+  return [line(header), separator, ...rows.slice(0, -1).map(line), separator, line(rows[rows.length - 1])].join('\n');
+}
+
+/**
+ * Parses a filament spec: a preset name (pla, petg, abs, asa, tpu), or
+ * `<density>:<diameter>:<cost per kg>`.
+ */
+export function parseFilament(spec: string): Filament {
+  const preset = filamentPresets[spec.toLowerCase()];
+  if (preset) {
+    return preset;
+  }
+
+  const [density, diameter, costPerKg] = spec.split(':').map(Number);
+  if (!(density > 0) || !(diameter > 0) || !(costPerKg >= 0)) {
+    throw new Error(
+      `Invalid filament: ${spec} (expected ${Object.keys(filamentPresets).join(', ')} or <density>:<diameter>:<cost per kg>)`
+    );
+  }
+  return { name: `${density} g/cm³`, density, diameter, costPerKg };
+}
+
+/**
+ * Filaments for each part from specs such as `petg` for every part, or
+ * `text=tpu` for one part. Later specs override earlier ones.
+ */
+export function parseFilaments(specs: string[]): Partial<Record<PartRole, Filament>> {
+  const filaments: Partial<Record<PartRole, Filament>> = {};
+  for (const spec of specs) {
+    const [role, value] = spec.includes('=') ? spec.split('=', 2) : [undefined, spec];
+    if (role !== undefined && !partRoles.includes(role as PartRole)) {
+      throw new Error(`Unknown part in filament spec: ${role} (expected ${partRoles.join(', ')})`);
+    }
+    const parsed = parseFilament(value);
+    for (const target of role ? [role as PartRole] : partRoles) {
+      filaments[target] = parsed;
+    }
+  }
+  return filaments;
+}
@@ -0,0 +1,71 @@
+/**
+ * Slicer layer events (pauses and color changes) for 3MF metadata.
+ * Written in the formats read by PrusaSlicer and by Bambu Studio / OrcaSlicer.
+ */
+
+export type LayerEventType = 'pause' | 'colorChange';
+
+export type LayerEvent = {
+  type: LayerEventType;
+  /** Top Z of the last layer printed before the event (mm) */
+  z: number;
+  /** Message shown on the printer, for pauses */
+  message?: string;
+  /** Filament color to change to, as #RRGGBB */
+  color?: string;
+  extruder?: number;
+};
+
+export const PRUSA_LAYER_EVENTS_PATH = 'Metadata/Prusa_Slicer_custom_gcode_per_print_z.xml';
+export const BAMBU_LAYER_EVENTS_PATH = 'Metadata/custom_gcode_per_layer.xml';
+
+// Both slicers use the same numbering: 0 = color change, 1 = pause
+const eventTypeCodes: Record<LayerEventType, number> = {
+  colorChange: 0,
+  pause: 1,
+};
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+function eventAttributes(event: LayerEvent): string {
+  const gcode = event.type === 'pause' ? 'M601' : 'M600';
+  return `type="${eventTypeCodes[event.type]}" extruder="${event.extruder ?? 1}" color="${escapeXml(event.color ?? '')}" extra="${escapeXml(event.message ?? '')}" gcode="${gcode}"`;
+}
+
+const sortedEvents = (events: LayerEvent[]) => [...events].sort((a, b) => a.z - b.z);
+
+/**
+ * Generate PrusaSlicer's per-print-Z custom G-code config.
+ */
+export function generatePrusaLayerEvents(events: LayerEvent[]): string {
+  const codes = sortedEvents(events)
+    .map((event) => `<code print_z="${event.z.toFixed(3)}" ${eventAttributes(event)}/>`)
+    .join('\n');
+
+  return `<?xml version="1.0" encoding="utf-8"?>
+<custom_gcodes_per_print_z>
+${codes}
+<mode value="SingleExtruder"/>
+</custom_gcodes_per_print_z>
+`;
+}
+
+/**
+ * Generate Bambu Studio / OrcaSlicer's per-layer custom G-code config.
+ */
+export function generateBambuLayerEvents(events: LayerEvent[]): string {
+  const layers = sortedEvents(events)
+    .map((event) => `<layer top_z="${event.z.toFixed(3)}" ${eventAttributes(event)}/>`)
+    .join('\n');
+
+  return `<?xml version="1.0" encoding="utf-8"?>
+<custom_gcodes_per_layer>
+<plate>
+<plate_info id="1"/>
+${layers}
+<mode value="SingleExtruder"/>
+</plate>
+</custom_gcodes_per_layer>
+`;
+}
@@ -0,0 +1,159 @@
+/**
+ * STL Exporters for Makerchip.
+ * STL has no parts or colors, so the parts are either written as one mesh
+ * or as one STL per part in a ZIP file.
+ */
+
+// @ts-ignore - No type declarations available
+import type { Exporter, ExportResult } from '@cadit-app/script-params';
+import type { Manifold } from '@cadit-app/manifold-3d/manifoldCAD';
+import { strToU8, Zippable, zipSync } from 'fflate';
+import { assembleMakerchipParts } from './assembly';
+import { partName } from './materials';
+import type { MakerChipParams } from './params';
+
+type Vec3 = [number, number, number];
+
+/**
+ * Calls `visit` with the corners and normal of each triangle of the shapes.
+ */
+function forEachTriangle(shapes: Manifold[], visit: (corners: Vec3[], normal: Vec3) => void) {
+  for (const shape of shapes) {
+    const { numProp, vertProperties, triVerts } = shape.getMesh();
+    const vertex = (index: number): Vec3 => {
+      const offset = index * numProp;
+      return [vertProperties[offset], vertProperties[offset + 1], vertProperties[offset + 2]];
+    };
+
+    for (let i = 0; i < triVerts.length; i += 3) {
+      const corners = [vertex(triVerts[i]), vertex(triVerts[i + 1]), vertex(triVerts[i + 2])];
+      visit(corners, triangleNormal(corners));
+    }
+  }
+}
+
+function triangleNormal([a, b, c]: Vec3[]): Vec3 {
+  const u = [b[0] - a[0], b[1] - a[1], b[2] - a[2]];
+  const v = [c[0] - a[0], c[1] - a[1], c[2] - a[2]];
+  const n: Vec3 = [u[1] * v[2] - u[2] * v[1], u[2] * v[0] - u[0] * v[2], u[0] * v[1] - u[1] * v[0]];
+  const length = Math.hypot(...n) || 1;
+  return [n[0] / length, n[1] / length, n[2] / length];
+}
+
+/**
+ * Encode shapes as a binary STL.
+ */
+export function generateBinaryStl(shapes: Manifold[], name = 'Makerchip'): ArrayBuffer {
+  const triangleCount = shapes.reduce((count, shape) => count + shape.numTri(), 0);
+  const buffer = new ArrayBuffer(84 + triangleCount * 50);
+  const view = new DataView(buffer);
+
+  // 80-byte header, which must not start with "solid"
+  new Uint8Array(buffer, 0, 80).set(strToU8(`Binary STL: ${name}`.slice(0, 80)));
+  view.setUint32(80, triangleCount, true);
+
+  let offset = 84;
+  forEachTriangle(shapes, (corners, normal) => {
+    for (const value of [...normal, ...corners.flat()]) {
+      view.setFloat32(offset, value, true);
+      offset += 4;
+    }
+    // Attribute byte count
+    view.setUint16(offset, 0, true);
+    offset += 2;
+  });
+
+  return buffer;
+}
+
+/**
+ * Encode shapes as an ASCII STL.
+ */
+export function generateAsciiStl(shapes: Manifold[], name = 'Makerchip'): string {
+  const lines = [`solid ${name}`];
+  const format = (v: Vec3) => v.map((x) => x.toExponential(6)).join(' ');
+
+  forEachTriangle(shapes, (corners, normal) => {
+    lines.push(
+      `  facet normal ${format(normal)}`,
+      '    outer loop',
+      ...corners.map((corner) => `      vertex ${format(corner)}`),
+      '    endloop',
+      '  endfacet'
+    );
+  });
+
+  lines.push(`endsolid ${name}`, '');
+  return lines.join('\n');
+}
+
+/**
+ * Export the Makerchip as a single binary STL.
+ */
+export async function stlExport(params: MakerChipParams): Promise<ExportResult> {
+  const parts = await assembleMakerchipParts(params, 'printable');
+
+  return {
+    mimeType: 'model/stl',
+    fileName: 'makerchip.stl',
+    data: generateBinaryStl(parts.map((part) => part.shape)),
+  };
+}
+
+/**
+ * Export the Makerchip as a single ASCII STL.
+ */
+export async function asciiStlExport(params: MakerChipParams): Promise<ExportResult> {
+  const parts = await assembleMakerchipParts(params, 'printable');
+
+  return {
+    mimeType: 'model/stl',
+    fileName: 'makerchip.stl',
+    data: generateAsciiStl(parts.map((part) => part.shape)),
+  };
+}
+
+/**
+ * Export the Makerchip as a ZIP with one binary STL per part, for slicers
+ * and CAM tools that assign materials per file.
+ */
+export async function stlZipExport(params: MakerChipParams): Promise<ExportResult> {
+  const parts = await assembleMakerchipParts(params, 'printable');
+
+  const files: Zippable = {};
+  for (const { role, shape, layer } of parts) {
+    const name = partName(role, undefined, layer);
+    files[`${name}.stl`] = new Uint8Array(generateBinaryStl([shape], name));
+  }
+
+  const zipFile = zipSync(files);
+  return {
+    mimeType: 'application/zip',
+    fileName: 'makerchip-parts.zip',
+    data: zipFile.buffer as ArrayBuffer,
+  };
+}
+
+/**
+ * STL Exporters for defineParams.
+ */
+export const stlExporter: Exporter<MakerChipParams> = {
+  name: 'STL',
+  label: 'Download STL',
+  description: 'Export the Makerchip as a single binary STL file.',
+  export: stlExport,
+};
+
+export const asciiStlExporter: Exporter<MakerChipParams> = {
+  name: 'STL (ASCII)',
+  label: 'Download ASCII STL',
+  description: 'Export the Makerchip as a single ASCII STL file, for older tools.',
+  export: asciiStlExport,
+};
+
+export const stlZipExporter: Exporter<MakerChipParams> = {
+  name: 'STL per part (ZIP)',
+  label: 'Download STL parts',
+  description: 'Export each part of the Makerchip as a separate STL file in a ZIP.',
+  export: stlZipExport,
+};
@@ -0,0 +1,142 @@
+/**
+ * Text engraving for Makerchip, using the built-in stroke font.
+ */
+
+import { CrossSection, Manifold } from '@cadit-app/manifold-3d/manifoldCAD';
+import { CAP_HEIGHT, GLYPH_SPACING, GLYPH_WIDTH, glyphStrokes } from './font';
+
+export type TextFace = 'top' | 'bottom';
+export type TextMode = 'emboss' | 'deboss';
+
+export type TextParams = {
+  textContent: string;
+  /** Cap height of the text (mm) */
+  textFontSize: number;
+  /** Radius of the arc through the middle of the text, 0 for straight text (mm) */
+  textArcRadius: number;
+  /** Angle where the text starts, running clockwise (degrees, 90 = top) */
+  textStartAngle: number;
+  textFace: TextFace;
+  textMode: TextMode;
+  /** Height of embossed text or depth of debossed text (mm) */
+  textDepth: number;
+};
+
+const STROKE_RATIO = 0.15;
+const STROKE_SEGMENTS = 16;
+
+/**
+ * Thickens a glyph's polylines into a cross-section centered on the origin.
+ */
+function glyphCrossSection(char: string, unit: number, strokeWidth: number): CrossSection | undefined {
+  const dot = CrossSection.circle(strokeWidth / 2, STROKE_SEGMENTS);
+  const pieces: CrossSection[] = [];
+
+  for (const stroke of glyphStrokes(char)) {
+    const points = stroke.map(([x, y]) => [
+      (x - GLYPH_WIDTH / 2) * unit,
+      (y - CAP_HEIGHT / 2) * unit,
+    ] as [number, number]);
+
+    if (points.length === 1) {
+      pieces.push(dot.translate(points[0]));
+      continue;
+    }
+
+    // Each segment becomes a capsule, so joins and ends are round
+    for (let i = 0; i < points.length - 1; i++) {
+      pieces.push(dot.translate(points[i]).add(dot.translate(points[i + 1])).hull());
+    }
+  }
+
+  return pieces.length > 0 ? CrossSection.union(pieces) : undefined;
+}
+
+/**
+ * Lays out text as a cross-section, either along an arc around the chip
+ * center or straight across it when `arcRadius` is 0.
+ */
+export function generateTextCrossSection({
+  text,
+  fontSize,
+  arcRadius,
+  startAngle,
+}: {
+  text: string;
+  fontSize: number;
+  arcRadius: number;
+  startAngle: number;
+}): CrossSection | undefined {
+  const unit = fontSize / CAP_HEIGHT;
+  const strokeWidth = fontSize * STROKE_RATIO;
+  const advance = (GLYPH_WIDTH + GLYPH_SPACING) * unit;
+  const chars = [...text];
+  const totalWidth = chars.length * advance - GLYPH_SPACING * unit;
+
+  const glyphs: CrossSection[] = [];
+  chars.forEach((char, i) => {
+    const glyph = glyphCrossSection(char, unit, strokeWidth);
+    if (!glyph) {
+      return;
+    }
+
+    // Distance from the start of the text to the glyph's center
+    const distance = i * advance + (GLYPH_WIDTH * unit) / 2;
+
+    if (arcRadius <= 0) {
+      glyphs.push(glyph.translate([distance - totalWidth / 2, 0]));
+      return;
+    }
+
+    // Keep each glyph upright relative to the chip edge
+    const angle = startAngle - (distance / arcRadius) * (180 / Math.PI);
+    const radians = (angle * Math.PI) / 180;
+    glyphs.push(
+      glyph
+        .rotate(angle - 90)
+        .translate([arcRadius * Math.cos(radians), arcRadius * Math.sin(radians)])
+    );
+  });
+
+  return glyphs.length > 0 ? CrossSection.union(glyphs) : undefined;
+}
+
+/**
+ * Generates the text part, positioned on the chosen face of a chip of the given height.
+ * Embossed text sits on the face; debossed text fills a recess that the caller
+ * subtracts from the other parts.
+ */
+export function generateTextShape({
+  textContent,
+  textFontSize,
+  textArcRadius,
+  textStartAngle,
+  textFace,
+  textMode,
+  textDepth,
+  height,
+}: TextParams & { height: number }): Manifold | undefined {
+  if (!textContent?.trim()) {
+    return undefined;
+  }
+
+  const crossSection = generateTextCrossSection({
+    text: textContent,
+    fontSize: textFontSize,
+    arcRadius: textArcRadius,
+    startAngle: textStartAngle,
+  });
+  if (!crossSection) {
+    return undefined;
+  }
+
+  const extruded = crossSection.extrude(textDepth);
+
+  if (textFace === 'bottom') {
+    // Mirror so the text reads correctly when the chip is flipped
+    const mirrored = extruded.mirror([1, 0, 0]);
+    return textMode === 'emboss' ? mirrored.translate([0, 0, -textDepth]) : mirrored;
+  }
+
+  return extruded.translate([0, 0, textMode === 'emboss' ? height : height - textDepth]);
+}
@@ -5,12 +5,37 @@
 
 // @ts-ignore - No type declarations available
 import type { Exporter, ExportResult } from '@cadit-app/script-params';
-import type { Manifold } from '@cadit-app/manifold-3d';
+import { Manifold } from '@cadit-app/manifold-3d/manifoldCAD';
 // @ts-ignore - No type declarations available
 import { to3dmodel, fileForContentTypes, FileForRelThumbnail } from '@jscadui/3mf-export';
 import { strToU8, Zippable, zipSync } from 'fflate';
-import { assembleMakerchipShapes } from './assembly';
+import { assembleMakerchipParts } from './assembly';
+import type { MakerchipPart } from './assembly';
+import { assembleSingleExtruderParts } from './colorChange';
+import { partMaterial, partName, partRoleLabels, partRoles } from './materials';
+import type { PartMaterial } from './materials';
 import type { MakerChipParams } from './params';
+import { generatePocket } from './pocket';
+import { defaultPlateOptions, layoutPlate } from './plate';
+import type { PlateOptions } from './plate';
+import { renderTopView, THUMBNAIL_PATH } from './thumbnail';
+import {
+  BAMBU_LAYER_EVENTS_PATH,
+  generateBambuLayerEvents,
+  generatePrusaLayerEvents,
+  LayerEvent,
+  PRUSA_LAYER_EVENTS_PATH,
+} from './slicerMetadata';
+
+/**
+ * A chip to place in a 3MF file: its parts, and where to put it.
+ */
+type ThreeMfChip = {
+  parts: MakerchipPart[];
+  params: MakerChipParams;
+  /** XYZ translation of the chip */
+  position?: [number, number, number];
+};
 
 /**
  * Export the Makerchip as a 3MF file.
@@ -18,33 +43,178 @@ import type { MakerChipParams } from './params';
  */
 export async function threeMfExport(params: MakerChipParams): Promise<ExportResult> {
   // Always use the "printable" assembly for 3MF export
-  const shapes = await assembleMakerchipShapes(params, 'printable');
+  const parts = await assembleMakerchipParts(params, 'printable');
+
+  return {
+    mimeType: 'model/3mf',
+    fileName: 'makerchip.3mf',
+    data: packageThreeMf([{ parts, params }], pauseEvents([params])),
+  };
+}
+
+/**
+ * Export the Makerchip as a 3MF file for printers with one nozzle.
+ * The parts are stacked in color bands, with color changes written to the
+ * slicer layer metadata, and every part is assigned to extruder 1.
+ */
+export async function singleExtruderThreeMfExport(
+  params: MakerChipParams
+): Promise<ExportResult & { colorChanges: LayerEvent[]; height: number }> {
+  const stack = await assembleSingleExtruderParts(params);
+  const singleExtruderParams = {
+    ...stack.params,
+    ...Object.fromEntries(partRoles.map((role) => [`${role}Extruder`, 1])),
+  };
 
-  // Export each shape as a separate mesh
-  const meshes = shapes.map((shape, i) => {
-    const mesh = shape.getMesh();
+  return {
+    mimeType: 'model/3mf',
+    fileName: 'makerchip-single-extruder.3mf',
+    data: packageThreeMf(
+      [{ parts: stack.parts, params: singleExtruderParams }],
+      [...stack.events, ...pauseEvents([stack.params])]
+    ),
+    colorChanges: stack.events,
+    height: stack.params.height,
+  };
+}
+
+/**
+ * Export several Makerchips laid out on one build plate as a 3MF file.
+ * Each chip is a separate object; its parts keep their extruder assignment.
+ */
+export async function plateThreeMfExport(
+  chipParams: MakerChipParams[],
+  plateOptions: PlateOptions = defaultPlateOptions
+): Promise<ExportResult & { warnings: string[] }> {
+  if (chipParams.length === 0) {
+    throw new Error('No chips to lay out on the plate');
+  }
+
+  // Assemble one design at a time, so an error names the chip it is about; copies
+  // of the same params reuse its parts
+  const assembled = new Map<MakerChipParams, MakerchipPart[]>();
+  const chips: MakerchipPart[][] = [];
+  for (const [i, params] of chipParams.entries()) {
+    let parts = assembled.get(params);
+    if (!parts) {
+      try {
+        parts = await assembleMakerchipParts(params, 'printable');
+      } catch (error) {
+        throw new Error(`Chip ${i + 1}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+      assembled.set(params, parts);
+    }
+    chips.push(parts);
+  }
+
+  // Lay out on the largest footprint, so differing designs never overlap
+  const designBounds = new Map(
+    [...assembled.values()].map((parts) => [parts, Manifold.compose(parts.map((part) => part.shape)).boundingBox()])
+  );
+  const bounds = chips.map((parts) => designBounds.get(parts)!);
+  const footprint: [number, number] = [
+    Math.max(...bounds.map((b) => b.max[0] - b.min[0])),
+    Math.max(...bounds.map((b) => b.max[1] - b.min[1])),
+  ];
+  const enclosingDiameter = Math.max(
+    ...[...designBounds].map(([parts, partBounds]) => 2 * enclosingRadius(parts, partBounds))
+  );
+  const layout = layoutPlate(chips.length, footprint, plateOptions, enclosingDiameter);
+
+  const placedChips = chips.map((parts, i): ThreeMfChip => {
+    const { min, max } = bounds[i];
+    const [x, y] = layout.positions[i];
+    // Center each chip on its cell and drop it onto the bed
     return {
-      id: (i + 1).toString(),
-      vertices: mesh.vertProperties,
-      indices: mesh.triVerts,
-      name: `Makerchip-Part-${i + 1}`,
+      parts,
+      params: chipParams[i],
+      position: [x - (min[0] + max[0]) / 2, y - (min[1] + max[1]) / 2, -min[2]],
     };
   });
 
-  // Generate a single component, with all meshes as children, in order
-  const components = [
-    {
-      id: meshes.length + 1,
-      children: meshes.map((mesh) => ({ objectID: mesh.id })),
-      name: 'Makerchip-Assembly',
-    },
-  ];
+  return {
+    mimeType: 'model/3mf',
+    fileName: 'makerchip-plate.3mf',
+    data: packageThreeMf(placedChips, pauseEvents(chipParams)),
+    warnings: layout.warnings,
+  };
+}
+
+/**
+ * Radius of the circle around the center of a chip's bounding box that holds
+ * every part, seen from above.
+ */
+function enclosingRadius(parts: MakerchipPart[], { min, max }: { min: number[]; max: number[] }): number {
+  const centerX = (min[0] + max[0]) / 2;
+  const centerY = (min[1] + max[1]) / 2;
+  let radius = 0;
+  for (const { shape } of parts) {
+    const { numProp, vertProperties } = shape.getMesh();
+    for (let i = 0; i < vertProperties.length; i += numProp) {
+      radius = Math.max(radius, Math.hypot(vertProperties[i] - centerX, vertProperties[i + 1] - centerY));
+    }
+  }
+  return radius;
+}
+
+/**
+ * Pauses for print-in-place inserts, so slicers add them automatically.
+ */
+function pauseEvents(chipParams: MakerChipParams[]): LayerEvent[] {
+  const events = new Map<number, LayerEvent>();
+  for (const params of chipParams) {
+    const pocket = generatePocket(params);
+    if (pocket?.pauseHeight !== undefined && !events.has(pocket.pauseHeight)) {
+      events.set(pocket.pauseHeight, {
+        type: 'pause',
+        z: pocket.pauseHeight,
+        message: `Insert the ${pocket.insertName}`,
+      });
+    }
+  }
+  return [...events.values()];
+}
+
+/**
+ * Package chips as a 3MF file, with one object per chip and one named,
+ * colored mesh per part.
+ */
+function packageThreeMf(chips: ThreeMfChip[], events: LayerEvent[]): ArrayBuffer {
+  const single = chips.length === 1;
+  const chipName = (c: number) => (single ? 'Makerchip-Assembly' : `Makerchip-${c + 1}`);
+
+  // Export each part as a separate mesh, named after its role
+  let nextId = 1;
+  const chipMeshes = chips.map((chip, c) =>
+    chip.parts.map(({ role, shape, layer }) => {
+      const mesh = shape.getMesh();
+      return {
+        id: (nextId++).toString(),
+        vertices: mesh.vertProperties,
+        indices: mesh.triVerts,
+        name: partName(role, single ? undefined : c + 1, layer),
+        material: partMaterial(chip.params, role),
+        label: partRoleLabels[role],
+      };
+    })
+  );
+  const meshes = chipMeshes.flat();
 
-  // The main item should reference the components
-  const items = components.map((component) => ({
-    objectID: component.id,
+  // Generate one component per chip, with its meshes as children, in order
+  const components = chipMeshes.map((partMeshes, c) => ({
+    id: nextId++,
+    children: partMeshes.map((mesh) => ({ objectID: mesh.id })),
+    name: chipName(c),
   }));
 
+  // The build items reference the components, placed on the plate
+  const items = components.map((component, c) => {
+    const position = chips[c].position;
+    return position
+      ? { objectID: component.id, transform: [1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, ...position, 1] }
+      : { objectID: component.id };
+  });
+
   const header = {
     unit: 'millimeter',
     title: 'CADit Makerchip',
@@ -60,54 +230,106 @@ export async function threeMfExport(params: MakerChipParams): Promise<ExportResu
     header,
   };
 
-  // Generate the 3MF XML model
-  const model = to3dmodel(to3mf as any);
+  // Generate the 3MF XML model, then attach the display colors
+  const model = addBaseMaterials(to3dmodel(to3mf as any), nextId++, meshes);
 
   // Package the 3MF file using fflate
   const fileForRelThumbnail = new FileForRelThumbnail();
   fileForRelThumbnail.add3dModel('3D/3dmodel.model');
+  fileForRelThumbnail.addThumbnail(THUMBNAIL_PATH);
+
+  // Render the thumbnail from above, with the chips where they sit on the plate
+  const thumbnail = renderTopView(
+    chips.flatMap(({ parts, position }, c) =>
+      parts.map(({ shape }, i) => ({
+        shape: position ? shape.translate(position) : shape,
+        color: chipMeshes[c][i].material.color,
+      }))
+    )
+  );
 
   const files: Zippable = {};
   files['3D/3dmodel.model'] = strToU8(model);
   files[fileForContentTypes.name] = strToU8(fileForContentTypes.content);
   files[fileForRelThumbnail.name] = strToU8(fileForRelThumbnail.content);
+  files[THUMBNAIL_PATH] = thumbnail;
 
   // Set extruders for multi-color printing
-  const modelSettingsXml = generateModelSettingsConfig(meshes.length);
+  const modelSettingsXml = generateModelSettingsConfig(
+    components.map((component, c) => ({
+      id: component.id,
+      name: component.name,
+      parts: chipMeshes[c],
+    }))
+  );
   files['Metadata/model_settings.config'] = strToU8(modelSettingsXml);
 
+  if (events.length > 0) {
+    files[PRUSA_LAYER_EVENTS_PATH] = strToU8(generatePrusaLayerEvents(events));
+    files[BAMBU_LAYER_EVENTS_PATH] = strToU8(generateBambuLayerEvents(events));
+  }
+
   const zipFile = zipSync(files);
+  return zipFile.buffer as ArrayBuffer;
+}
 
-  return {
-    mimeType: 'model/3mf',
-    fileName: 'makerchip.3mf',
-    data: zipFile.buffer as ArrayBuffer,
-  };
+/**
+ * Adds a basematerials group with one material per distinct part color and
+ * points each mesh object at its material.
+ * The 3MF writer has no material support, so this edits the model XML.
+ */
+function addBaseMaterials(
+  model: string,
+  groupId: number,
+  meshes: { id: string; label: string; material: PartMaterial }[]
+): string {
+  const bases: { name: string; color: string }[] = [];
+  const indexForMesh = new Map<string, number>();
+  for (const { id, label, material } of meshes) {
+    let index = bases.findIndex((base) => base.name === label && base.color === material.color);
+    if (index === -1) {
+      index = bases.push({ name: label, color: material.color }) - 1;
+    }
+    indexForMesh.set(id, index);
+  }
+
+  const basesXml = bases
+    .map(({ name, color }) => `    <base name="${name}" displaycolor="${color}" />\n`)
+    .join('');
+
+  return model
+    .replace('<resources>\n', `<resources>\n   <basematerials id="${groupId}">\n${basesXml}   </basematerials>\n`)
+    .replace(/<object id="([^"]+)" type="model"/g, (tag, id: string) =>
+      indexForMesh.has(id) ? `${tag} pid="${groupId}" pindex="${indexForMesh.get(id)}"` : tag
+    );
 }
 
 /**
  * Generate the model_settings.config XML for multi-extruder support.
  */
-function generateModelSettingsConfig(partsCount: number): string {
-  // Assign extruder numbers 1-4, repeat 4 for any extra parts
-  const extruderForPart = (i: number) => (i < 4 ? i + 1 : 4);
-
-  let partsXml = '';
-  for (let i = 0; i < partsCount; i++) {
-    partsXml += `
-    <part id="${i + 1}" subtype="normal_part">
-      <metadata key="name" value="Makerchip-Assembly_${i + 1}"/>
-      <metadata key="extruder" value="${extruderForPart(i)}"/>
+function generateModelSettingsConfig(
+  objects: { id: number; name: string; parts: { id: string; name: string; material: PartMaterial }[] }[]
+): string {
+  const objectsXml = objects.map(({ id, name, parts }) => {
+    let partsXml = '';
+    parts.forEach((part) => {
+      partsXml += `
+    <part id="${part.id}" subtype="normal_part">
+      <metadata key="name" value="${part.name}"/>
+      <metadata key="extruder" value="${part.material.extruder}"/>
     </part>`;
-  }
+    });
+
+    return `  <object id="${id}">
+    <metadata key="name" value="${name}"/>
+    <metadata key="extruder" value="${parts[0]?.material.extruder ?? 1}"/>
+    ${partsXml}
+  </object>`;
+  });
 
   return `<?xml version="1.0" encoding="UTF-8"?>
 <config>
-  <object id="${partsCount + 1}">
-    <metadata key="name" value="Makerchip-Assembly"/>
-    <metadata key="extruder" value="1"/>
-    ${partsXml}
-  </object>
+${objectsXml.join('\n')}
 </config>
 `;
 }
@@ -121,3 +343,13 @@ export const threeMfExporter: Exporter<MakerChipParams> = {
   description: 'Export the Makerchip as a 3MF file for multi-color 3D printing.',
   export: threeMfExport,
 };
+
+/**
+ * Single-extruder 3MF Exporter for defineParams.
+ */
+export const singleExtruderThreeMfExporter: Exporter<MakerChipParams> = {
+  name: '3MF (single extruder)',
+  label: 'Download 3MF (single extruder)',
+  description: 'Export the Makerchip as a 3MF file with color changes for printers with one nozzle.',
+  export: singleExtruderThreeMfExport,
+};
@@ -0,0 +1,227 @@
+/**
+ * CPU renderer for top-down PNG previews of Makerchips,
+ * used for 3MF thumbnails and CLI previews.
+ */
+
+import type { Manifold } from '@cadit-app/manifold-3d/manifoldCAD';
+import { zlibSync } from 'fflate';
+import { assembleMakerchipParts } from './assembly';
+import { generateMarkingShape } from './disk';
+import { defaultPartMaterials, partMaterial } from './materials';
+import type { MakerChipParams } from './params';
+
+export const THUMBNAIL_PATH = 'Metadata/thumbnail.png';
+
+// Rendered at this multiple of the output size, then averaged down for anti-aliasing
+const SUPERSAMPLING = 2;
+// Free space around the chip, as a fraction of the image size
+const MARGIN = 0.05;
+// Light from the upper left, so rounded edges and reliefs read as 3D
+const LIGHT = normalize([-0.4, 0.5, 1]);
+
+export type ThumbnailPart = {
+  shape: Manifold;
+  /** Color as #RRGGBB or #RRGGBBAA */
+  color: string;
+};
+
+function normalize([x, y, z]: number[]): [number, number, number] {
+  const length = Math.hypot(x, y, z) || 1;
+  return [x / length, y / length, z / length];
+}
+
+/**
+ * Render the parts as seen from above, each in its color, to a square PNG.
+ * Later parts win where faces are at the same height, matching the 3MF part order.
+ */
+export function renderTopView(parts: ThumbnailPart[], size = 256): Uint8Array {
+  const renderSize = size * SUPERSAMPLING;
+  const depth = new Float32Array(renderSize * renderSize).fill(-Infinity);
+  const pixels = new Uint8ClampedArray(renderSize * renderSize * 4);
+
+  // Fit the combined footprint into the image
+  const bounds = parts.map((part) => part.shape.boundingBox());
+  const minX = Math.min(...bounds.map((b) => b.min[0]));
+  const maxX = Math.max(...bounds.map((b) => b.max[0]));
+  const minY = Math.min(...bounds.map((b) => b.min[1]));
+  const maxY = Math.max(...bounds.map((b) => b.max[1]));
+  const scale = (renderSize * (1 - 2 * MARGIN)) / Math.max(maxX - minX, maxY - minY, 1e-6);
+  const toPixel = (x: number, y: number): [number, number] => [
+    renderSize / 2 + (x - (minX + maxX) / 2) * scale,
+    renderSize / 2 - (y - (minY + maxY) / 2) * scale,
+  ];
+
+  for (const { shape, color } of parts) {
+    const [red, green, blue] = [1, 3, 5].map((i) => parseInt(color.slice(i, i + 2), 16));
+    const { numProp, vertProperties, triVerts } = shape.getMesh();
+    const vertex = (index: number) => {
+      const offset = index * numProp;
+      return [vertProperties[offset], vertProperties[offset + 1], vertProperties[offset + 2]];
+    };
+
+    for (let t = 0; t < triVerts.length; t += 3) {
+      const a = vertex(triVerts[t]);
+      const b = vertex(triVerts[t + 1]);
+      const c = vertex(triVerts[t + 2]);
+      const normal = normalize([
+        (b[1] - a[1]) * (c[2] - a[2]) - (b[2] - a[2]) * (c[1] - a[1]),
+        (b[2] - a[2]) * (c[0] - a[0]) - (b[0] - a[0]) * (c[2] - a[2]),
+        (b[0] - a[0]) * (c[1] - a[1]) - (b[1] - a[1]) * (c[0] - a[0]),
+      ]);
+      // Only faces pointing up are visible from above
+      if (normal[2] <= 1e-6) {
+        continue;
+      }
+
+      const shade = 0.35 + 0.65 * Math.max(0, normal[0] * LIGHT[0] + normal[1] * LIGHT[1] + normal[2] * LIGHT[2]);
+      const [ax, ay] = toPixel(a[0], a[1]);
+      const [bx, by] = toPixel(b[0], b[1]);
+      const [cx, cy] = toPixel(c[0], c[1]);
+      const area = (bx - ax) * (cy - ay) - (by - ay) * (cx - ax);
+      if (Math.abs(area) < 1e-12) {
+        continue;
+      }
+
+      const x0 = Math.max(0, Math.floor(Math.min(ax, bx, cx)));
+      const x1 = Math.min(renderSize - 1, Math.ceil(Math.max(ax, bx, cx)));
+      const y0 = Math.max(0, Math.floor(Math.min(ay, by, cy)));
+      const y1 = Math.min(renderSize - 1, Math.ceil(Math.max(ay, by, cy)));
+
+      for (let py = y0; py <= y1; py++) {
+        for (let px = x0; px <= x1; px++) {
+          // Barycentric coordinates of the pixel center
+          const sx = px + 0.5;
+          const sy = py + 0.5;
+          const wa = ((bx - sx) * (cy - sy) - (by - sy) * (cx - sx)) / area;
+          const wb = ((cx - sx) * (ay - sy) - (cy - sy) * (ax - sx)) / area;
+          const wc = 1 - wa - wb;
+          if (wa < 0 || wb < 0 || wc < 0) {
+            continue;
+          }
+
+          const z = wa * a[2] + wb * b[2] + wc * c[2];
+          const index = py * renderSize + px;
+          if (z < depth[index] - 1e-4) {
+            continue;
+          }
+          depth[index] = z;
+          pixels.set([red * shade, green * shade, blue * shade, 255], index * 4);
+        }
+      }
+    }
+  }
+
+  return encodePng(downsample(pixels, renderSize, SUPERSAMPLING), size, size);
+}
+
+/**
+ * Average blocks of `factor` × `factor` pixels, weighting colors by alpha.
+ */
+function downsample(pixels: Uint8ClampedArray, renderSize: number, factor: number): Uint8Array {
+  const size = renderSize / factor;
+  const result = new Uint8Array(size * size * 4);
+
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const sum = [0, 0, 0, 0];
+      for (let dy = 0; dy < factor; dy++) {
+        for (let dx = 0; dx < factor; dx++) {
+          const i = ((y * factor + dy) * renderSize + x * factor + dx) * 4;
+          const alpha = pixels[i + 3];
+          sum[0] += pixels[i] * alpha;
+          sum[1] += pixels[i + 1] * alpha;
+          sum[2] += pixels[i + 2] * alpha;
+          sum[3] += alpha;
+        }
+      }
+      const o = (y * size + x) * 4;
+      if (sum[3] > 0) {
+        result[o] = Math.round(sum[0] / sum[3]);
+        result[o + 1] = Math.round(sum[1] / sum[3]);
+        result[o + 2] = Math.round(sum[2] / sum[3]);
+        result[o + 3] = Math.round(sum[3] / (factor * factor));
+      }
+    }
+  }
+
+  return result;
+}
+
+const crcTable = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Encode RGBA pixels as a PNG.
+ */
+function encodePng(rgba: Uint8Array, width: number, height: number): Uint8Array {
+  const chunk = (type: string, data: Uint8Array) => {
+    const bytes = new Uint8Array(12 + data.length);
+    const view = new DataView(bytes.buffer);
+    view.setUint32(0, data.length);
+    bytes.set([...type].map((char) => char.charCodeAt(0)), 4);
+    bytes.set(data, 8);
+    view.setUint32(8 + data.length, crc32(bytes.subarray(4, 8 + data.length)));
+    return bytes;
+  };
+
+  const header = new Uint8Array(13);
+  const headerView = new DataView(header.buffer);
+  headerView.setUint32(0, width);
+  headerView.setUint32(4, height);
+  // 8-bit RGBA, default compression, filter and no interlacing
+  header.set([8, 6, 0, 0, 0], 8);
+
+  // Each row starts with filter type 0 (none)
+  const raw = new Uint8Array(height * (width * 4 + 1));
+  for (let y = 0; y < height; y++) {
+    raw.set(rgba.subarray(y * width * 4, (y + 1) * width * 4), y * (width * 4 + 1) + 1);
+  }
+
+  const chunks = [
+    new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk('IHDR', header),
+    chunk('IDAT', zlibSync(raw)),
+    chunk('IEND', new Uint8Array(0)),
+  ];
+
+  const png = new Uint8Array(chunks.reduce((length, c) => length + c.length, 0));
+  let offset = 0;
+  for (const c of chunks) {
+    png.set(c, offset);
+    offset += c.length;
+  }
+  return png;
+}
+
+/**
+ * Render a top-down PNG preview of the printable chip, in its part colors.
+ */
+export async function renderMakerchipPng(params: MakerChipParams, size = 256): Promise<Uint8Array> {
+  const parts = await assembleMakerchipParts(params, 'printable');
+  return renderTopView(
+    parts.map(({ role, shape }) => ({ shape, color: partMaterial(params, role).color })),
+    size
+  );
+}
+
+/**
+ * Render a top-down PNG preview of a built-in pattern on its own, in the
+ * default marking color.
+ */
+export async function renderPatternPng(patternId: string, size = 256): Promise<Uint8Array> {
+  const marking = await generateMarkingShape({ shapeName: patternId, radius: 20, roundingRadius: 0, height: 1 });
+  return renderTopView([{ shape: marking, color: defaultPartMaterials.marking.color }], size);
+}
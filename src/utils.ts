@@ -4,6 +4,7 @@
 
 import { svgToPolygons } from '@cadit-app/svg-sampler';
 import { embeddedSvgs } from './embeddedSvgs';
+import { resolvePattern } from './patterns';
 import { CrossSection } from '@cadit-app/manifold-3d/manifoldCAD';
 
 /**
@@ -11,22 +12,93 @@ import { CrossSection } from '@cadit-app/manifold-3d/manifoldCAD';
  */
 export async function parseSvgToCrossSection(
   shapeName: string,
-  maxError: number = 0.01
+  maxError: number = 0.01,
+  size?: number
 ): Promise<CrossSection> {
-  // Get the SVG content from embedded SVGs
-  const svgContent = embeddedSvgs[shapeName];
-  if (!svgContent) {
-    throw new Error(`Unknown shape: ${shapeName}. Available shapes: ${Object.keys(embeddedSvgs).join(', ')}`);
+  // Get the SVG content from the pattern catalog, so aliases work too
+  const pattern = resolvePattern(shapeName);
+  if (pattern.kind !== 'svg') {
+    throw new Error(`Pattern ${pattern.id} is procedural and has no SVG to parse`);
   }
 
-  // Sample the SVG into polygons
-  const polygons = await svgToPolygons(svgContent, { maxError });
+  return parseSvgContentToCrossSection(embeddedSvgs[pattern.svgKey], maxError, size);
+}
+
+/**
+ * Larger side of an SVG's artboard, from its viewBox or else its width and
+ * height; undefined when it declares neither.
+ */
+export function svgArtboardSize(svgContent: string): number | undefined {
+  const svgTag = svgContent.match(/<svg\b[^>]*>/i)?.[0] ?? '';
+  const attribute = (name: string) => svgTag.match(new RegExp(`\\s${name}\\s*=\\s*["']([^"']*)["']`, 'i'))?.[1];
+
+  const viewBox = attribute('viewBox')?.trim().split(/[\s,]+/).map(Number);
+  if (viewBox?.length === 4 && viewBox[2] > 0 && viewBox[3] > 0) {
+    return Math.max(viewBox[2], viewBox[3]);
+  }
+  const sides = [attribute('width'), attribute('height')].map((value) => parseFloat(value ?? '')).filter((side) => side > 0);
+  return sides.length > 0 ? Math.max(...sides) : undefined;
+}
+
+/**
+ * Parse raw SVG markup to a CrossSection.
+ * All paths must be closed; the result is filled using the even-odd rule.
+ * `maxError` is in SVG units, or in mm when the SVG is to be scaled to `size` mm.
+ */
+export async function parseSvgContentToCrossSection(
+  svgContent: string,
+  maxError: number = 0.01,
+  size?: number
+): Promise<CrossSection> {
+  // Sample the SVG into polygons, in SVG units
+  const artboard = size ? svgArtboardSize(svgContent) : undefined;
+  const svgMaxError = size && artboard ? (maxError * artboard) / size : maxError;
+  const polygons = await svgToPolygons(svgContent, { maxError: svgMaxError });
+
+  if (polygons.length === 0) {
+    throw new Error('SVG contains no paths or shapes to use as a pattern');
+  }
+
+  const openPaths = polygons.filter((polygon) => !polygon.isClosed).length;
+  if (openPaths > 0) {
+    throw new Error(
+      `SVG contains ${openPaths} open path(s). Every path must be closed (end it with "Z") to be filled as a pattern`
+    );
+  }
 
   // Flip the Y-axis for SVG paths (SVG uses Y-down, but 3D modeling uses Y-up)
   const flippedPolygons = polygons.map((polygon) => {
     return polygon.points.map(([x, y]) => [x, -y]) as [number, number][];
   });
 
-  // Create and return a cross-section from the sampled paths
-  return new CrossSection(flippedPolygons, 'EvenOdd').simplify(maxError);
+  // Create a cross-section from the sampled paths
+  const crossSection = new CrossSection(flippedPolygons, 'EvenOdd').simplify(svgMaxError);
+
+  if (crossSection.isEmpty()) {
+    throw new Error('SVG pattern is empty after sampling. Check that its paths enclose a non-zero area');
+  }
+
+  return crossSection;
+}
+
+/**
+ * Decode an SVG data URL (base64 or URL-encoded) to its markup.
+ */
+export function decodeSvgDataUrl(dataUrl: string): string {
+  const match = dataUrl.match(/^data:([^,]*?)(;base64)?,(.*)$/s);
+  if (!match) {
+    throw new Error('Pattern file is not a valid data URL');
+  }
+
+  const [, mimeType, isBase64, data] = match;
+  if (mimeType && !mimeType.startsWith('image/svg+xml')) {
+    throw new Error(`Pattern file must be an SVG image, got ${mimeType}`);
+  }
+
+  if (isBase64) {
+    return typeof atob !== 'undefined'
+      ? new TextDecoder().decode(Uint8Array.from(atob(data), (c) => c.charCodeAt(0)))
+      : Buffer.from(data, 'base64').toString('utf-8');
+  }
+  return decodeURIComponent(data);
 }
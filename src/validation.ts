@@ -0,0 +1,459 @@
+/**
+ * Parameter validation for Makerchip.
+ * Reports problems as diagnostics with the param they concern and a
+ * suggested fix, instead of failing deep inside the geometry code.
+ */
+
+// @ts-ignore - No type declarations available
+import type { Exporter, ExportResult } from '@cadit-app/script-params';
+import { normalizeColor, partRoles } from './materials';
+import type { MakerChipParams } from './params';
+import { generatePocket } from './pocket';
+import { fitQrCode, maxQrSize } from './qrFit';
+import { supportedThickness } from './relief';
+import { embedPlacements } from './embedPlacement';
+import { findPattern, patternCatalog } from './patterns';
+import { patternBand } from './patternTransform';
+import { resolvePatternLayers } from './patternLayers';
+import { edgeSizes } from './edgeProfile';
+
+export type DiagnosticSeverity = 'error' | 'warning';
+
+export type Diagnostic = {
+  /** Errors stop generation; warnings still produce a chip */
+  severity: DiagnosticSeverity;
+  /** Param the problem concerns, as a dot path, e.g. qrCodeSettings.params.size */
+  path: string;
+  message: string;
+  /** Suggested fix */
+  fix: string;
+};
+
+// Thinnest wall left between a hole and the chip edge before it is flagged (mm)
+const MIN_WALL = 0.8;
+
+const error = (path: string, message: string, fix: string): Diagnostic => ({ severity: 'error', path, message, fix });
+const warning = (path: string, message: string, fix: string): Diagnostic => ({ severity: 'warning', path, message, fix });
+
+const format = (value: number) => Number(value.toFixed(2)).toString();
+
+/**
+ * Check the params for problems that would break the chip or make it print badly.
+ */
+export function validateMakerchipParams(params: MakerChipParams): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  const { radius, height, roundingRadius, centerCircleRadius } = params;
+
+  if (!(radius > 0)) {
+    diagnostics.push(error('radius', `Radius must be greater than 0, got ${radius}`, 'Set a radius such as 20 mm'));
+  }
+  if (!(height > 0)) {
+    diagnostics.push(error('height', `Height must be greater than 0, got ${height}`, 'Set a height such as 3 mm'));
+  }
+  if (centerCircleRadius >= radius) {
+    diagnostics.push(
+      error(
+        'centerCircleRadius',
+        `Center circle radius (${centerCircleRadius} mm) must be smaller than the chip radius (${radius} mm)`,
+        `Use a center circle radius below ${radius} mm, or a larger radius`
+      )
+    );
+  }
+  const hasLip = params.rimLipHeight > 0;
+  if (!hasLip && roundingRadius > height / 2) {
+    diagnostics.push(
+      warning(
+        'roundingRadius',
+        `Rounding radius (${roundingRadius} mm) is more than half the height and is reduced to ${format(height / 2)} mm`,
+        `Use a rounding radius of at most ${format(height / 2)} mm`
+      )
+    );
+  }
+
+  // Edge profile
+  if (params.bottomRoundingRadius > height / 2) {
+    diagnostics.push(
+      warning(
+        'bottomRoundingRadius',
+        `Bottom edge size (${params.bottomRoundingRadius} mm) is more than half the height and is reduced to ${format(height / 2)} mm`,
+        `Use a bottom edge size of at most ${format(height / 2)} mm, or -1 for the same as the top`
+      )
+    );
+  }
+  if (hasLip) {
+    if (!(params.rimLipWidth > 0) || params.rimLipWidth >= radius) {
+      diagnostics.push(
+        error(
+          'rimLipWidth',
+          `Rim lip width (${params.rimLipWidth} mm) must be greater than 0 and smaller than the chip radius (${radius} mm)`,
+          'Use a rim lip width such as 1.5 mm'
+        )
+      );
+    } else if (roundingRadius > params.rimLipWidth) {
+      diagnostics.push(
+        warning(
+          'roundingRadius',
+          `Rounding radius (${roundingRadius} mm) is wider than the rim lip and is reduced to ${params.rimLipWidth} mm`,
+          `Use a rounding radius of at most ${params.rimLipWidth} mm, or a wider rim lip`
+        )
+      );
+    }
+  }
+  const edges = edgeSizes(roundingRadius, params, height);
+  if (params.outline === 'custom' && (edges.top > 0 || edges.bottom > 0)) {
+    diagnostics.push(
+      warning(
+        'roundingRadius',
+        'Custom outlines that are not convex get stepped edges instead of a smooth rounding or chamfer, which can show as terraces',
+        'Use a convex custom outline, or a rounding radius of 0 for straight edges'
+      )
+    );
+  }
+  if (params.reedCount > 0) {
+    if (params.outline !== 'circle') {
+      diagnostics.push(
+        warning(
+          'reedCount',
+          `A reeded edge only fits a circle outline, so it is left off the ${params.outline} outline`,
+          'Use the circle outline, or set the reed count to 0'
+        )
+      );
+    } else if (params.reedDepth >= radius) {
+      diagnostics.push(
+        error(
+          'reedDepth',
+          `Reed depth (${params.reedDepth} mm) must be smaller than the chip radius (${radius} mm)`,
+          'Use a reed depth such as 0.3 mm'
+        )
+      );
+    }
+  }
+
+  if (params.quality === 'custom' && !(params.qualityTolerance > 0)) {
+    diagnostics.push(
+      error(
+        'qualityTolerance',
+        `Custom chord tolerance must be greater than 0, got ${params.qualityTolerance}`,
+        'Use a tolerance such as 0.003 mm, or one of the draft, normal or fine qualities'
+      )
+    );
+  }
+
+  // Pattern layers: a single pattern is one layer, with the chip's own pattern params
+  const patternLayers = resolvePatternLayers(params);
+  const isLayered = Array.isArray(params.markings);
+  const layerPath = (i: number, key: string, layerKey: string) => (isLayered ? `markings.${i}.${layerKey}` : key);
+  const layerLabel = (i: number) => (isLayered ? `Pattern layer ${i + 1}` : 'Pattern');
+  const customSvg = !!params.markingsFile?.dataUrl;
+  patternLayers.forEach((layer, i) => {
+    const isCustom = customSvg && (!isLayered || layer.pattern === 'custom');
+    if (!isCustom && !findPattern(layer.pattern)) {
+      diagnostics.push(
+        error(
+          layerPath(i, 'markings', 'pattern'),
+          `${isLayered ? `${layerLabel(i)}: unknown` : 'Unknown'} pattern: ${layer.pattern}`,
+          `Use one of ${patternCatalog.map((pattern) => pattern.id).join(', ')}${isLayered ? ', or custom with a custom pattern SVG' : ''}`
+        )
+      );
+    }
+    if (isLayered && !partRoles.includes(layer.role)) {
+      diagnostics.push(
+        error(layerPath(i, 'markings', 'role'), `${layerLabel(i)}: unknown role ${layer.role}`, `Use one of ${partRoles.join(', ')}`)
+      );
+    }
+
+    const band = patternBand(layer, radius);
+    if (band.inner >= band.outer) {
+      diagnostics.push(
+        error(
+          layerPath(i, 'patternInnerRadius', 'innerRadius'),
+          `${layerLabel(i)} band inner radius (${band.inner} mm) must be smaller than its outer radius (${format(band.outer)} mm), or the pattern is cut away`,
+          `Use an inner radius below ${format(band.outer)} mm, or 0 to keep the whole pattern`
+        )
+      );
+    }
+    if (layer.patternOuterRadius > radius) {
+      diagnostics.push(
+        warning(
+          layerPath(i, 'patternOuterRadius', 'outerRadius'),
+          `${layerLabel(i)} band outer radius (${layer.patternOuterRadius} mm) is past the chip edge and is reduced to ${radius} mm`,
+          `Use an outer radius of at most ${radius} mm, or 0 for the chip edge`
+        )
+      );
+    }
+  });
+  if (isLayered && customSvg && !patternLayers.some((layer) => layer.pattern === 'custom')) {
+    diagnostics.push(
+      warning(
+        'markingsFile',
+        'Custom pattern SVG is set, but no pattern layer uses it, so it is left out',
+        'Add a layer with the pattern custom, or remove the custom pattern SVG'
+      )
+    );
+  }
+
+  if (params.inlay && params.inlayDepth >= height) {
+    diagnostics.push(
+      warning(
+        'inlayDepth',
+        `Inlay depth (${params.inlayDepth} mm) is not less than the height, so the inlays go all the way through`,
+        `Use an inlay depth below ${height} mm, or 0 for full-height inlays`
+      )
+    );
+  }
+
+  // Layer relief: recessed layers must stay inside the chip, raised ones on their support
+  const reliefLayers = [
+    ...patternLayers.map((layer, i) => ({
+      name: 'marking',
+      label: isLayered ? layerLabel(i) : 'Marking',
+      offsetPath: layerPath(i, 'markingOffset', 'offset'),
+      thicknessPath: layerPath(i, 'markingThickness', 'thickness'),
+      offset: layer.offset,
+      thickness: layer.thickness,
+    })),
+    {
+      name: 'center',
+      label: 'Center disk',
+      offsetPath: 'centerOffset',
+      thicknessPath: 'centerThickness',
+      offset: params.centerOffset,
+      thickness: params.centerThickness,
+    },
+  ];
+  for (const { name, label, offsetPath, thicknessPath, offset, thickness } of reliefLayers) {
+    const top = height + offset;
+    if (top <= 0) {
+      diagnostics.push(
+        error(offsetPath, `${label} is recessed ${format(-offset)} mm, through the whole ${height} mm chip`, `Use a ${name} offset above -${height} mm`)
+      );
+    } else if (thickness > 0 && supportedThickness(top, thickness, height) > thickness) {
+      diagnostics.push(
+        warning(
+          thicknessPath,
+          `${label} (${thickness} mm thick) would float above the chip and is thickened to ${format(top - height)} mm`,
+          `Use a ${name} thickness of at least ${format(top - height)} mm`
+        )
+      );
+    }
+  }
+  const embeds = [
+    { key: 'qr', label: 'QR code' },
+    { key: 'image', label: 'Image' },
+  ] as const;
+  for (const { key, label } of embeds) {
+    const thickness = params[`${key}Thickness`];
+    // The embed's own thickness is not known here, so only an explicit one is checked
+    for (const placement of embedPlacements(params, key, thickness)) {
+      if (placement.outer <= -height) {
+        diagnostics.push(
+          error(
+            `${key}Offset`,
+            `${label} on the ${placement.face} face is recessed ${format(-placement.outer)} mm, through the whole ${height} mm chip`,
+            `Use a ${key} offset above -${height} mm`
+          )
+        );
+      } else if (thickness > 0 && placement.thickness > thickness) {
+        diagnostics.push(
+          warning(
+            `${key}Thickness`,
+            `${label} on the ${placement.face} face (${thickness} mm thick) would float above the chip and is thickened to ${format(placement.thickness)} mm`,
+            `Use a ${key} thickness of at least ${format(placement.thickness)} mm, or a smaller ${key} offset`
+          )
+        );
+      }
+    }
+  }
+
+  // QR code
+  const qr = params.qrCodeSettings;
+  if (qr?.enabled) {
+    const fit = fitQrCode(params);
+    if (!qr.params.text?.trim()) {
+      diagnostics.push(
+        error('qrCodeSettings.params.text', 'QR code is enabled but has no content', 'Enter the text or URL to encode, or disable the QR code')
+      );
+    }
+    // The QR code's corners reach half its diagonal from its center
+    const qrDistance = Math.hypot(params.qrPositionX, params.qrPositionY);
+    const maxSize = maxQrSize(centerCircleRadius - qrDistance, 0);
+    if (!params.qrAutoFit && fit.size > maxSize) {
+      diagnostics.push(
+        warning(
+          'qrCodeSettings.params.size',
+          `QR code (${fit.size} mm) reaches past the center circle (${centerCircleRadius} mm radius) and overlaps the pattern`,
+          `Turn on QR auto-fit, use a QR code size of at most ${format(maxSize)} mm, or a center circle radius of at least ${format(qrDistance + fit.size / Math.SQRT2)} mm`
+        )
+      );
+    }
+    if (fit.moduleSize === undefined) {
+      diagnostics.push(
+        error(
+          'qrCodeSettings.params.text',
+          'QR code content is too long to print on a chip',
+          'Shorten the content, for example with a URL shortener'
+        )
+      );
+    } else if (fit.moduleSize < fit.minModuleSize) {
+      diagnostics.push(
+        warning(
+          'qrCodeSettings.params.size',
+          `QR code modules are ${format(fit.moduleSize)} mm (${fit.modules} × ${fit.modules} at level ${fit.errorCorrection}), ` +
+            `under the ${format(fit.minModuleSize)} mm needed to print with a ${params.nozzleDiameter} mm nozzle and scan reliably`,
+          `Use a QR code of at least ${format(fit.minModuleSize * fit.modules!)} mm, shorter content, a lower error correction level or a smaller nozzle`
+        )
+      );
+    }
+  }
+
+  // Image
+  const image = params.imageExtrudeSettings;
+  // An uploaded file has a data URL; the default image is referenced by URL
+  const imageFile = (image?.params as any)?.imageFile;
+  if (image?.enabled && !imageFile?.dataUrl && !imageFile?.imageUrl) {
+    diagnostics.push(
+      warning('imageExtrudeSettings.params.imageFile', 'Image is enabled but no image file is set, so it is left out', 'Choose an image file, or disable the image')
+    );
+  }
+
+  // Text
+  if (params.textContent?.trim() && params.textArcRadius + params.textFontSize / 2 > radius) {
+    diagnostics.push(
+      warning(
+        'textArcRadius',
+        `Text on a ${params.textArcRadius} mm arc runs past the chip edge (${radius} mm)`,
+        `Use a text arc radius of at most ${format(radius - params.textFontSize / 2)} mm, or smaller text`
+      )
+    );
+  }
+
+  // Keychain hole or slot
+  if (params.hangingFeature === 'hole' || params.hangingFeature === 'slot') {
+    const edgeWall = params.hangingInset - params.hangingHoleDiameter / 2;
+    if (edgeWall < MIN_WALL) {
+      diagnostics.push(
+        warning(
+          'hangingInset',
+          `The ${params.hangingFeature} leaves only ${format(edgeWall)} mm of material at the chip edge`,
+          `Use a hanging inset of at least ${format(params.hangingHoleDiameter / 2 + MIN_WALL)} mm, or a smaller hole`
+        )
+      );
+    }
+  }
+
+  // Pocket
+  try {
+    generatePocket(params);
+  } catch (e) {
+    const path = params.pocketType === 'custom' ? 'pocketDepth' : 'pocketType';
+    diagnostics.push(error(path, (e as Error).message, 'Use a shallower pocket, thinner walls or a taller chip'));
+  }
+
+  // Part colors and extruders
+  for (const role of partRoles) {
+    const color = params[`${role}Color`];
+    if (color !== undefined) {
+      try {
+        normalizeColor(color);
+      } catch (e) {
+        diagnostics.push(error(`${role}Color`, (e as Error).message, 'Use a hex color such as #1E88E5'));
+      }
+    }
+    const extruder = params[`${role}Extruder`];
+    if (extruder !== undefined && !(Number.isInteger(extruder) && extruder >= 1)) {
+      diagnostics.push(
+        error(`${role}Extruder`, `Extruder must be a whole number of 1 or higher, got ${extruder}`, 'Use an extruder number such as 1')
+      );
+    }
+  }
+
+  return diagnostics;
+}
+
+/**
+ * Check the params for parts that get no color of their own when the chip is
+ * stacked in color bands for a single extruder.
+ */
+export function validateSingleExtruderParams(params: MakerChipParams): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+
+  if (params.qrCodeSettings?.enabled && (params.qrFace !== 'top' || params.qrMode !== 'emboss')) {
+    diagnostics.push(
+      warning(
+        params.qrFace !== 'top' ? 'qrFace' : 'qrMode',
+        `Single-extruder output raises the QR code on the top face, so its ${params.qrFace} face and ${params.qrMode} mode are not used`,
+        'Put the QR code on the top face with the emboss mode, or use a multi-extruder 3MF'
+      )
+    );
+  }
+
+  const image = params.imageExtrudeSettings;
+  if (image?.enabled && params.imageFace !== 'bottom') {
+    diagnostics.push(
+      warning(
+        'imageFace',
+        'Single-extruder output has no color change for an image on the top face, so it prints in the filament loaded at its height',
+        'Put the image on the bottom face, or use a multi-extruder 3MF'
+      )
+    );
+  }
+
+  // Every pattern layer is lifted into the relief, which prints in the marking color
+  if (Array.isArray(params.markings)) {
+    resolvePatternLayers(params).forEach((layer, i) => {
+      if (layer.role !== 'marking' && layer.role !== 'center') {
+        diagnostics.push(
+          warning(
+            `markings.${i}.role`,
+            `Pattern layer ${i + 1} has the ${layer.role} role, but single-extruder output prints it in the marking and center color`,
+            'Use the marking or center role, or a multi-extruder 3MF'
+          )
+        );
+      }
+    });
+  }
+
+  return diagnostics;
+}
+
+export const hasErrors = (diagnostics: Diagnostic[]) => diagnostics.some((d) => d.severity === 'error');
+
+/**
+ * Formats diagnostics as plain text, one per line with its fix.
+ */
+export function formatDiagnostics(diagnostics: Diagnostic[]): string {
+  return diagnostics
+    .map((d) => `${d.severity === 'error' ? '✗ Error' : '⚠ Warning'} [${d.path}]: ${d.message}\n    Fix: ${d.fix}`)
+    .join('\n');
+}
+
+/**
+ * Throws when the params have errors; returns the warnings otherwise.
+ */
+export function assertValidParams(
+  params: MakerChipParams,
+  validate: (params: MakerChipParams) => Diagnostic[] = validateMakerchipParams
+): Diagnostic[] {
+  const diagnostics = validate(params);
+  if (hasErrors(diagnostics)) {
+    throw new Error(`Invalid Makerchip params:\n${formatDiagnostics(diagnostics.filter((d) => d.severity === 'error'))}`);
+  }
+  return diagnostics;
+}
+
+/**
+ * Wraps an exporter so it validates the params first, and returns the
+ * warnings with its result.
+ */
+export function withValidation(
+  exporter: Exporter<MakerChipParams>,
+  validate: (params: MakerChipParams) => Diagnostic[] = validateMakerchipParams
+): Exporter<MakerChipParams> {
+  return {
+    ...exporter,
+    export: async (params: MakerChipParams): Promise<ExportResult & { diagnostics: Diagnostic[] }> => {
+      const diagnostics = assertValidParams(params, validate);
+      return { ...(await exporter.export(params)), diagnostics };
+    },
+  };
+}